@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { Option, Schema } from "effect";
+import {
+  CurvedScores,
+  DIMENSIONS,
+  decodeJSONScores,
+  decodeScorePool,
+  type GradeThresholds,
+} from "./schemas.js";
+import { computeCurve } from "./curve.js";
+import { applyCurve, CurveApplicationError, gradeFor } from "./apply-curve.js";
+import { digit, makePoolStored, makeScoresStored } from "./test-fixtures.js";
+
+const thresholds = { A: 0.8, B: 0.6, C: 0.4 } as GradeThresholds;
+
+const pool = decodeScorePool(
+  makePoolStored([
+    makeScoresStored(1, [0.2, 0.3, 0.4]),
+    makeScoresStored(2, [0.4, 0.5, 0.6]),
+    makeScoresStored(3, [0.6, 0.7, 0.8]),
+    makeScoresStored(4, [0.8, 0.9, 1.0]),
+  ])
+);
+const curve = computeCurve(pool);
+
+describe("gradeFor", () => {
+  it("treats thresholds as inclusive minimums", () => {
+    expect(gradeFor(0.8, thresholds)).toBe("A");
+    expect(gradeFor(0.79, thresholds)).toBe("B");
+    expect(gradeFor(0.6, thresholds)).toBe("B");
+    expect(gradeFor(0.4, thresholds)).toBe("C");
+    expect(gradeFor(0.39, thresholds)).toBe("D");
+  });
+});
+
+describe("applyCurve", () => {
+  it("grades every problem, dimension, ability and total", () => {
+    const curved = applyCurve(pool.scores[3], curve);
+    expect(curved.problem_grades.map((g) => g.task_grade)).toEqual([
+      "A",
+      "A",
+      "A",
+    ]);
+    expect(Object.values(curved.ability_grades)).toEqual(
+      DIMENSIONS.map(() => Option.some("A"))
+    );
+    expect(curved.total_grades).toEqual({
+      total_problem_grade: "A",
+      total_ability_grade: "A",
+      final_total_grade: "A",
+    });
+    expect(curved.applied_curve_id).toBe(curve.curve_id);
+    expect(curved.source).toBe(pool.scores[3]);
+  });
+
+  it("grades per-problem dimensions against the ability curve", () => {
+    const scores = pool.scores[0];
+    const curved = applyCurve(scores, curve);
+    const dim = "Discovery-Self-Understanding";
+    const score = Option.getOrThrow(
+      scores.problem_scores[0].dimension_scores[dim]
+    );
+    expect(curved.problem_grades[0].dimension_grades[dim]).toEqual(
+      Option.some(
+        gradeFor(score, Option.getOrThrow(curve.ability_curves[dim]))
+      )
+    );
+  });
+
+  it("keeps None dimension scores as None grades", () => {
+    const curved = applyCurve(pool.scores[1], curve);
+    pool.scores[1].problem_scores.forEach((p, i) => {
+      for (const dim of DIMENSIONS) {
+        expect(
+          Option.isNone(curved.problem_grades[i].dimension_grades[dim])
+        ).toBe(Option.isNone(p.dimension_scores[dim]));
+      }
+    });
+  });
+
+  it("produces a CurvedScores that round-trips through the schema", () => {
+    const curved = applyCurve(pool.scores[2], curve);
+    const encoded = Schema.encodeSync(CurvedScores)(curved);
+    expect(
+      encoded.problem_grades[0].dimension_grades["Verification-Confirmation"]
+    ).toBeNull();
+    expect(Schema.decodeSync(CurvedScores)(encoded).total_grades).toEqual(
+      curved.total_grades
+    );
+  });
+
+  it("fails when the curve has no entry for a scored problem", () => {
+    const { [digit("001001")]: _dropped, ...rest } = curve.problem_curves;
+    const scores = decodeJSONScores(makeScoresStored(9, [0.5, 0.5, 0.5]));
+    expect(() => applyCurve(scores, { ...curve, problem_curves: rest })).toThrow(
+      CurveApplicationError
+    );
+  });
+
+  it("fails when a measured dimension has no ability curve", () => {
+    const dim = "Expression-Translation";
+    const scores = decodeJSONScores(makeScoresStored(9, [0.5, 0.5, 0.5]));
+    const ability_curves = { ...curve.ability_curves, [dim]: Option.none() };
+    expect(() => applyCurve(scores, { ...curve, ability_curves })).toThrow(
+      `has no ability curve for ${dim}, which scores ${scores.scores_id} measure`
+    );
+  });
+});
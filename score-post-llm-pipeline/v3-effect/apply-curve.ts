@@ -0,0 +1,140 @@
+/**
+ * Curve Application (phase 5) — JSONScores + Curve → CurvedScores
+ *
+ * Every score category is graded against its own curve:
+ *   problem task_score            → problem_curves[digit]
+ *   problem dimension_scores[dim] → ability_curves[dim]   (ip-04 #10)
+ *   ability_scores[dim]           → ability_curves[dim]
+ *   totals.*                      → totals.*
+ *
+ * None dimension scores stay None in dimension_grades, and an unmeasured
+ * ability (None) has a None ability grade. There is no fallback
+ * threshold: a problem without a curve entry, or a measured dimension whose
+ * ability curve is None, is an error, not a guess.
+ *
+ * The compatibility check runs first. Incompatible pairs always fail;
+ * requires_override pairs fail unless the caller passes `override: true`.
+ *
+ * With `allowLanguageDifference`, a problem is graded by the curve entry of
+ * its other-language variant; each such pairing is recorded in
+ * `language_bridges`.
+ */
+
+import { randomUUID } from "crypto";
+import { Data, DateTime, Option } from "effect";
+import {
+  CurvedScores,
+  type Curve,
+  type Dimension,
+  type GradeThresholds,
+  type JSONScores,
+  type LetterGrade,
+  type ProblemDigitId,
+  type ProblemGrade,
+} from "./schemas.js";
+import { byDimension } from "./curve.js";
+import {
+  checkCompatibility,
+  matchProblems,
+  type CompatibilityOptions,
+} from "./compatibility.js";
+
+export class CurveApplicationError extends Data.TaggedError(
+  "CurveApplicationError"
+)<{ readonly message: string }> {}
+
+/** A ≥ thresholds.A, B ≥ thresholds.B, C ≥ thresholds.C, otherwise D */
+export const gradeFor = (
+  score: number,
+  thresholds: GradeThresholds
+): LetterGrade => {
+  if (score >= thresholds.A) return "A";
+  if (score >= thresholds.B) return "B";
+  if (score >= thresholds.C) return "C";
+  return "D";
+};
+
+export interface ApplyCurveOptions extends CompatibilityOptions {
+  /** Accept a requires_override compatibility result */
+  readonly override?: boolean;
+}
+
+export const applyCurve = (
+  scores: JSONScores,
+  curve: Curve,
+  options: ApplyCurveOptions = {}
+): CurvedScores => {
+  const compatibility = checkCompatibility(scores, curve, options);
+  if (
+    compatibility.status === "incompatible" ||
+    (compatibility.status === "requires_override" && !options.override)
+  ) {
+    throw new CurveApplicationError({
+      message: `Curve ${curve.curve_id} is ${compatibility.status} with scores ${scores.scores_id}: ${compatibility.differences.map((d) => d._tag).join(", ")}`,
+    });
+  }
+
+  const gradeDimension = (dim: Dimension, score: number): LetterGrade =>
+    Option.match(curve.ability_curves[dim], {
+      onNone: () => {
+        throw new CurveApplicationError({
+          message: `Curve ${curve.curve_id} has no ability curve for ${dim}, which scores ${scores.scores_id} measure`,
+        });
+      },
+      onSome: (thresholds) => gradeFor(score, thresholds),
+    });
+
+  const matches = matchProblems(
+    scores.problem_scores.map((p) => p.problem_id.digit),
+    Object.keys(curve.problem_curves) as ProblemDigitId[],
+    options
+  );
+
+  const problem_grades = scores.problem_scores.map((p): ProblemGrade => {
+    const curveDigit = matches.get(p.problem_id.digit);
+    const problemCurve = curveDigit && curve.problem_curves[curveDigit];
+    if (!problemCurve) {
+      throw new CurveApplicationError({
+        message: `Curve ${curve.curve_id} has no entry for problem ${p.problem_id.digit} (${p.problem_id.name})`,
+      });
+    }
+    return {
+      problem_id: p.problem_id,
+      task_grade: gradeFor(p.task_score, problemCurve),
+      dimension_grades: byDimension((dim) =>
+        Option.map(p.dimension_scores[dim], (s) => gradeDimension(dim, s))
+      ),
+    };
+  });
+
+  const abilities = scores.ability_scores;
+  const totals = scores.totals;
+
+  return CurvedScores.make({
+    curved_scores_id: randomUUID(),
+    source: scores,
+    applied_curve_id: curve.curve_id,
+    curved_at: DateTime.unsafeNow(),
+    problem_grades,
+    ability_grades: byDimension((dim) =>
+      Option.map(abilities[dim], (s) => gradeDimension(dim, s))
+    ),
+    total_grades: {
+      total_problem_grade: gradeFor(
+        totals.total_problem_score,
+        curve.totals.total_problem
+      ),
+      total_ability_grade: gradeFor(
+        totals.total_ability_score,
+        curve.totals.total_ability
+      ),
+      final_total_grade: gradeFor(
+        totals.final_total_score,
+        curve.totals.final_total
+      ),
+    },
+    language_bridges: [...matches]
+      .filter(([scores_digit, curve_digit]) => scores_digit !== curve_digit)
+      .map(([scores_digit, curve_digit]) => ({ scores_digit, curve_digit })),
+  });
+};
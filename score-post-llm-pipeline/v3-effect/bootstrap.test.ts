@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { Schema } from "effect";
+import { CurveMethod, decodeScorePool } from "./schemas.js";
+import { compareMethods, computeCurve } from "./curve.js";
+import { bootstrapCurve, BootstrapError } from "./bootstrap.js";
+import { digit, makePoolStored, makeScoresStored } from "./test-fixtures.js";
+
+const pool = decodeScorePool(
+  makePoolStored(
+    Array.from({ length: 12 }, (_, i) => {
+      const v = (i + 1) / 13;
+      return makeScoresStored(i + 1, [v, (v + 0.5) / 1.5, 1 - v]);
+    })
+  )
+);
+
+describe("bootstrapCurve", () => {
+  const report = bootstrapCurve(pool, { seed: 42, iterations: 200 });
+
+  it("is reproducible for the same seed", () => {
+    expect(bootstrapCurve(pool, { seed: 42, iterations: 200 })).toEqual(
+      report
+    );
+  });
+
+  it("depends on the seed", () => {
+    expect(
+      bootstrapCurve(pool, { seed: 7, iterations: 200 }).categories
+    ).not.toEqual(report.categories);
+  });
+
+  it("covers every problem, dimension and total curve", () => {
+    expect(report.categories.map((c) => [c.category, c.key])).toEqual(
+      compareMethods(pool).map((c) => [c.category, c.key])
+    );
+  });
+
+  it("reports the full-pool curve as the estimate", () => {
+    const curve = computeCurve(pool);
+    const problem = report.categories.find((c) => c.key === "000500");
+    const total = report.categories.find((c) => c.key === "final_total");
+    expect(problem?.estimate).toEqual(curve.problem_curves[digit("000500")]);
+    expect(total?.estimate).toEqual(curve.totals.final_total);
+  });
+
+  it("gives ordered intervals and a flip share in [0, 1]", () => {
+    for (const c of report.categories) {
+      for (const grade of ["A", "B", "C"] as const) {
+        expect(c.intervals[grade].lower).toBeLessThanOrEqual(
+          c.intervals[grade].upper
+        );
+      }
+      expect(c.replicates).toBe(200);
+      expect(c.flip_share).toBeGreaterThanOrEqual(0);
+      expect(c.flip_share).toBeLessThanOrEqual(1);
+    }
+    const problem = report.categories.find((c) => c.key === "000340");
+    expect(problem?.flip_share).toBeGreaterThan(0);
+  });
+
+  it("finds a category every participant ties on perfectly stable", () => {
+    // 000340 and 001001 average to 0.5 for everyone
+    const tied = report.categories.find(
+      (c) => c.key === "Expression-Translation"
+    );
+    expect(tied?.intervals.B).toEqual({ lower: 0.5, upper: 0.5 });
+    expect(tied?.flip_share).toBe(0);
+  });
+
+  it("narrows the interval as the confidence level drops", () => {
+    const narrow = bootstrapCurve(pool, {
+      seed: 42,
+      iterations: 200,
+      confidence: 0.5,
+    });
+    const width = (r: typeof report) =>
+      r.categories[0].intervals.B.upper - r.categories[0].intervals.B.lower;
+    expect(width(narrow)).toBeLessThan(width(report));
+  });
+
+  it("finds nothing to flip under an absolute method", () => {
+    const method = Schema.decodeUnknownSync(CurveMethod)({
+      type: "absolute",
+      thresholds: [0.8, 0.6, 0.4],
+    });
+    const absolute = bootstrapCurve(pool, { seed: 1, iterations: 50, method });
+    for (const c of absolute.categories) {
+      expect(c.intervals.A).toEqual({ lower: 0.8, upper: 0.8 });
+      expect(c.flip_share).toBe(0);
+    }
+  });
+
+  it("names the category a single pooled value cannot estimate", () => {
+    const single = decodeScorePool(
+      makePoolStored([makeScoresStored(1, [0.5, 0.6, 0.7])])
+    );
+    const method = Schema.decodeUnknownSync(CurveMethod)({
+      type: "standard_deviation",
+      sigma_boundaries: [1, 0, -1],
+      std_dev: "sample",
+    });
+    expect(() =>
+      bootstrapCurve(single, { seed: 1, iterations: 10, method })
+    ).toThrow(
+      "Cannot estimate the problem 000340 curve from the full pool: Sample standard deviation needs at least 2 values, got 1"
+    );
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => bootstrapCurve(pool, { seed: 1, iterations: 0 })).toThrow(
+      BootstrapError
+    );
+    expect(() => bootstrapCurve(pool, { seed: 1, confidence: 1 })).toThrow(
+      BootstrapError
+    );
+  });
+});
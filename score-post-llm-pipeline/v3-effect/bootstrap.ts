@@ -0,0 +1,225 @@
+/**
+ * Bootstrap stability — how far would a curve move on a different cohort?
+ *
+ * Participants are resampled with replacement and every category's
+ * thresholds are recomputed with the curve method on each replicate.
+ * Reported per problem, dimension and total:
+ *   intervals    percentile confidence interval for each of A, B, C
+ *   flip_share   expected share of participants whose grade under a
+ *                replicate curve differs from their full-pool grade
+ *
+ * Whole participants are resampled, not single values, so the categories of
+ * one replicate stay consistent with each other. The RNG is seeded: the same
+ * pool, seed and options always produce the same report.
+ */
+
+import { Data, Option } from "effect";
+import {
+  DIMENSIONS,
+  type CurveMethod,
+  type GradeThresholds,
+  type ScorePool,
+} from "./schemas.js";
+import {
+  CurveComputationError,
+  DEFAULT_CURVE_METHOD,
+  thresholdsFor,
+  type ThresholdComparison,
+} from "./curve.js";
+import { gradeFor } from "./apply-curve.js";
+import { quantile, seededRandom } from "./stats.js";
+
+export class BootstrapError extends Data.TaggedError("BootstrapError")<{
+  readonly message: string;
+}> {}
+
+export interface ThresholdInterval {
+  readonly lower: number;
+  readonly upper: number;
+}
+
+export interface CategoryStability {
+  readonly category: ThresholdComparison["category"];
+  /** ProblemDigitId, Dimension, or total curve name */
+  readonly key: string;
+  /** Thresholds computed from the full pool */
+  readonly estimate: GradeThresholds;
+  readonly intervals: {
+    readonly A: ThresholdInterval;
+    readonly B: ThresholdInterval;
+    readonly C: ThresholdInterval;
+  };
+  /** Replicates that produced thresholds for this category */
+  readonly replicates: number;
+  /** Mean share of the category's participants whose grade flips, in [0, 1] */
+  readonly flip_share: number;
+}
+
+export interface BootstrapReport {
+  readonly pool_id: string;
+  readonly method: CurveMethod;
+  readonly seed: number;
+  readonly iterations: number;
+  readonly confidence: number;
+  readonly categories: readonly CategoryStability[];
+}
+
+export interface BootstrapOptions {
+  readonly seed: number;
+  /** Number of resampled pools (default 1000) */
+  readonly iterations?: number;
+  /** Two-sided interval coverage (default 0.95) */
+  readonly confidence?: number;
+  readonly method?: CurveMethod;
+}
+
+/** One value per pool participant; undefined where it has none */
+interface CategorySeries {
+  readonly category: CategoryStability["category"];
+  readonly key: string;
+  readonly values: readonly (number | undefined)[];
+}
+
+/** Same categories and membership rules as collectPoolValues, per participant */
+const categorySeries = (pool: ScorePool): readonly CategorySeries[] => {
+  const totals = pool.scores.map((s) => s.totals);
+  return [
+    ...pool.problem_ids.map(
+      (pid): CategorySeries => ({
+        category: "problem",
+        key: pid.digit,
+        values: pool.scores.map(
+          (s) =>
+            s.problem_scores.find((p) => p.problem_id.digit === pid.digit)
+              ?.task_score
+        ),
+      })
+    ),
+    ...DIMENSIONS.map(
+      (dim): CategorySeries => ({
+        category: "ability",
+        key: dim,
+        values: pool.scores.map((s) =>
+          Option.getOrUndefined(s.ability_scores[dim])
+        ),
+      })
+    ),
+    ...(["total_problem", "total_ability", "final_total"] as const).map(
+      (name): CategorySeries => ({
+        category: "total",
+        key: name,
+        values: totals.map((t) => t[`${name}_score`]),
+      })
+    ),
+  ];
+};
+
+const defined = (values: readonly (number | undefined)[]): number[] =>
+  values.filter((v): v is number => v !== undefined);
+
+/** Thresholds for one replicate, or undefined if the method cannot run on it */
+const replicateThresholds = (
+  values: readonly number[],
+  method: CurveMethod
+): GradeThresholds | undefined => {
+  if (values.length === 0) return undefined;
+  try {
+    return thresholdsFor(values, method);
+  } catch (e) {
+    if (e instanceof CurveComputationError) return undefined;
+    throw e;
+  }
+};
+
+export const bootstrapCurve = (
+  pool: ScorePool,
+  options: BootstrapOptions
+): BootstrapReport => {
+  const iterations = options.iterations ?? 1000;
+  const confidence = options.confidence ?? 0.95;
+  const method = options.method ?? DEFAULT_CURVE_METHOD;
+  if (pool.scores.length === 0) {
+    throw new BootstrapError({
+      message: `Cannot bootstrap empty pool ${pool.pool_id}`,
+    });
+  }
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new BootstrapError({
+      message: `iterations must be a positive integer, got ${iterations}`,
+    });
+  }
+  if (!(confidence > 0 && confidence < 1)) {
+    throw new BootstrapError({
+      message: `confidence must be in (0, 1), got ${confidence}`,
+    });
+  }
+
+  // Categories without any pooled value have no curve to analyse
+  const series = categorySeries(pool).filter(
+    (s) => defined(s.values).length > 0
+  );
+  const estimates = series.map((s) => {
+    try {
+      return thresholdsFor(defined(s.values), method);
+    } catch (e) {
+      if (!(e instanceof CurveComputationError)) throw e;
+      throw new BootstrapError({
+        message: `Cannot estimate the ${s.category} ${s.key} curve from the full pool: ${e.message}`,
+      });
+    }
+  });
+  const samples = series.map(() => [] as GradeThresholds[]);
+  const flips = series.map(() => 0);
+
+  const random = seededRandom(options.seed);
+  const n = pool.scores.length;
+  for (let r = 0; r < iterations; r++) {
+    const drawn = Array.from({ length: n }, () => Math.floor(random() * n));
+    series.forEach((s, i) => {
+      const thresholds = replicateThresholds(
+        defined(drawn.map((j) => s.values[j])),
+        method
+      );
+      if (thresholds === undefined) return;
+      samples[i].push(thresholds);
+      for (const v of defined(s.values)) {
+        if (gradeFor(v, thresholds) !== gradeFor(v, estimates[i])) flips[i]++;
+      }
+    });
+  }
+
+  const alpha = (1 - confidence) / 2;
+  const interval = (values: readonly number[]): ThresholdInterval => ({
+    lower: quantile(values, alpha),
+    upper: quantile(values, 1 - alpha),
+  });
+
+  return {
+    pool_id: pool.pool_id,
+    method,
+    seed: options.seed,
+    iterations,
+    confidence,
+    categories: series.map((s, i): CategoryStability => {
+      const replicates = samples[i];
+      if (replicates.length === 0) {
+        throw new BootstrapError({
+          message: `No replicate produced thresholds for ${s.category} ${s.key}; increase iterations`,
+        });
+      }
+      return {
+        category: s.category,
+        key: s.key,
+        estimate: estimates[i],
+        intervals: {
+          A: interval(replicates.map((t) => t.A)),
+          B: interval(replicates.map((t) => t.B)),
+          C: interval(replicates.map((t) => t.C)),
+        },
+        replicates: replicates.length,
+        flip_share:
+          flips[i] / (replicates.length * defined(s.values).length),
+      };
+    }),
+  };
+};
@@ -0,0 +1,413 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CurvedReportSchema } from "../v1-vitest/schema-verify-v1.js";
+import { decodeCurve, decodeCurvedScores, decodeScorePool } from "./schemas.js";
+import { runCli } from "./cli.js";
+import {
+  EVENT_ID,
+  PROMPT_HASH,
+  dimMapStored,
+  makeReportStored,
+  makeScoresStored,
+} from "./test-fixtures.js";
+
+let dir: string;
+let logs: string[];
+let errors: string[];
+
+const output = {
+  log: (line: string) => logs.push(line),
+  error: (line: string) => errors.push(line),
+};
+const cli = (...argv: string[]) => runCli(argv, output);
+const file = (name: string) => path.join(dir, name);
+const writeJsonl = (name: string, values: readonly unknown[]) => {
+  fs.writeFileSync(
+    file(name),
+    values.map((v) => JSON.stringify(v)).join("\n") + "\n"
+  );
+  return file(name);
+};
+const readJsonl = (name: string): unknown[] =>
+  fs
+    .readFileSync(file(name), "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+
+const reports = [
+  makeReportStored(1, [0.2, 0.3, 0.4]),
+  makeReportStored(2, [0.4, 0.5, 0.6]),
+  makeReportStored(3, [0.6, 0.7, 0.8]),
+  makeReportStored(4, [0.8, 0.9, 1.0]),
+];
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "score-cli-"));
+  logs = [];
+  errors = [];
+  fs.writeFileSync(file("map.json"), JSON.stringify(dimMapStored));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const extractArgs = [
+  "--prompt-hash",
+  PROMPT_HASH,
+  "--dimension-map",
+  "MAP",
+] as const;
+const withMap = (args: readonly string[]) =>
+  args.map((a) => (a === "MAP" ? file("map.json") : a));
+
+describe("runCli", () => {
+  it("prints usage and exits 2 for missing or unknown commands", () => {
+    expect(cli()).toBe(2);
+    expect(logs[0]).toMatch(/^Usage:/);
+    expect(cli("grade")).toBe(2);
+    expect(errors[0]).toMatch(/^Unknown command "grade"/);
+  });
+
+  it("exits 2 for missing options and unknown flags", () => {
+    const input = writeJsonl("reports.jsonl", reports);
+    expect(cli("extract", input, "--prompt-hash", PROMPT_HASH)).toBe(2);
+    expect(errors[0]).toMatch(/^Missing required option --out/);
+    expect(cli("validate", "report", input, "--strict")).toBe(2);
+  });
+
+  it("exits 2 for a --prompt-hash that is not a git hash, before reading reports", () => {
+    const input = writeJsonl("reports.jsonl", reports);
+    const args = ["--prompt-hash", "NOTAHASH", "--dimension-map", "MAP"];
+    expect(
+      cli(...withMap(["extract", input, "--out", file("s.json"), ...args]))
+    ).toBe(2);
+    expect(errors[0]).toMatch(
+      /^--prompt-hash "NOTAHASH" is not a git commit hash/
+    );
+    expect(fs.existsSync(file("s.json"))).toBe(false);
+    const run = ["run", file("missing.jsonl"), "--out-dir", file("out")];
+    expect(cli(...withMap([...run, ...args]))).toBe(2);
+  });
+
+  it("exits 1 for unreadable input", () => {
+    fs.writeFileSync(file("broken.json"), "{");
+    expect(cli("validate", "scores", file("broken.json"))).toBe(1);
+    expect(errors[0]).toMatch(/broken\.json: invalid JSON/);
+  });
+});
+
+describe("validate", () => {
+  it("reports every invalid record with file, line and path", () => {
+    const bad = { ...makeScoresStored(2, [0.5, 0.5, 0.5]), participant_id: "" };
+    const input = writeJsonl("scores.jsonl", [
+      makeScoresStored(1, [0.5, 0.5, 0.5]),
+      bad,
+    ]);
+    expect(cli("validate", "scores", input)).toBe(1);
+    expect(errors).toEqual([
+      `${input}:2 $.participant_id: Expected a string at least 1 character(s) long, actual ""`,
+    ]);
+    expect(logs).toEqual(["Validated 2 scores records: 1 valid, 1 invalid"]);
+  });
+
+  it("validates v1 reports with the same issue format", () => {
+    const report = makeReportStored(1, [0.5, 0.5, 0.5]);
+    fs.writeFileSync(
+      file("report.json"),
+      JSON.stringify({ ...report, taskEvalMean: 1.5 })
+    );
+    expect(cli("validate", "report", file("report.json"), "--json")).toBe(1);
+    const [entry] = JSON.parse(logs[0]);
+    expect(entry.source).toBe(file("report.json"));
+    expect(entry.issues[0]).toMatchObject({
+      path: "$.taskEvalMean",
+      actual: 1.5,
+    });
+  });
+
+  it("warns about thinly covered dimensions without failing", () => {
+    const entries = dimMapStored.entries.map((e, i) =>
+      i === 2
+        ? {
+            ...e,
+            dimensions: e.dimensions.filter(
+              (d) => d !== "Verification-Confirmation"
+            ),
+          }
+        : e
+    );
+    fs.writeFileSync(
+      file("thin.json"),
+      JSON.stringify({ ...dimMapStored, entries })
+    );
+    expect(cli("validate", "dimension-map", file("thin.json"))).toBe(0);
+    expect(errors).toEqual([
+      `${file("thin.json")}: warning: Verification-Confirmation is measured by only 000500 thinking-traps`,
+    ]);
+  });
+
+  it("exits 0 when everything decodes", () => {
+    expect(cli("validate", "dimension-map", file("map.json"))).toBe(0);
+    expect(cli("validate", "report", writeJsonl("r.jsonl", reports))).toBe(0);
+  });
+});
+
+describe("phase commands", () => {
+  it("chains extract → pool → curve → apply → merge", () => {
+    const input = writeJsonl("reports.jsonl", reports);
+    const steps = [
+      ["extract", input, "--out", file("scores.jsonl"), ...extractArgs],
+      ["pool", file("scores.jsonl"), "--out", file("pool.json")],
+      ["curve", file("pool.json"), "--out", file("curve.json")],
+      [
+        "apply",
+        file("scores.jsonl"),
+        "--curve",
+        file("curve.json"),
+        "--out",
+        file("curved.jsonl"),
+      ],
+      [
+        "merge",
+        input,
+        "--curved",
+        file("curved.jsonl"),
+        "--out",
+        file("final.jsonl"),
+      ],
+    ];
+    for (const step of steps) {
+      expect(cli(...withMap(step)), errors.join("\n")).toBe(0);
+    }
+    expect(logs[0]).toMatch(/^Extracted 4 of 4 reports/);
+    expect(logs[1]).toMatch(/^Pooled 4 scores from spring-2024-final/);
+    expect(logs[3]).toMatch(/^Graded 4 of 4 scores \(final: A 1,/);
+
+    const pool = decodeScorePool(
+      JSON.parse(fs.readFileSync(file("pool.json"), "utf8"))
+    );
+    expect(pool.prompt_version_hash).toBe(PROMPT_HASH);
+    expect(readJsonl("final.jsonl").map((r) => CurvedReportSchema.parse(r).grade))
+      .toEqual(
+        readJsonl("curved.jsonl").map(
+          (c) => decodeCurvedScores(c).total_grades.final_total_grade
+        )
+      );
+  });
+
+  it("writes the records that succeed and exits 1 for the rest", () => {
+    const broken = makeReportStored(5, [0.5, 0.5, 0.5]);
+    (broken.problemReports[0] as { score: number | null }).score = null;
+    const input = writeJsonl("reports.jsonl", [...reports, broken]);
+    expect(
+      cli(
+        ...withMap(["extract", input, "--out", file("s.jsonl"), ...extractArgs])
+      )
+    ).toBe(1);
+    expect(errors).toEqual([
+      `${input}:5: Problem 000340-meeting-verify has no task score`,
+    ]);
+    expect(readJsonl("s.jsonl")).toHaveLength(4);
+  });
+
+  it("rejects reports whose dependency list disagrees with --dimension-map", () => {
+    const [, ...rest] = dimMapStored.entries;
+    fs.writeFileSync(
+      file("map.json"),
+      JSON.stringify({ ...dimMapStored, entries: rest })
+    );
+    const input = writeJsonl("reports.jsonl", reports.slice(0, 1));
+    expect(
+      cli(
+        ...withMap(["extract", input, "--out", file("s.jsonl"), ...extractArgs])
+      )
+    ).toBe(1);
+    expect(errors[0]).toMatch(
+      /depends on problem 000340-meeting-verify, which dimension map .* does not map$/
+    );
+  });
+
+  it("refuses to pool scores that cannot share a curve", () => {
+    const input = writeJsonl("scores.jsonl", [
+      makeScoresStored(1, [0.5, 0.5, 0.5]),
+      { ...makeScoresStored(2, [0.5, 0.5, 0.5]), prompt_version_hash: "b4c5d6e" },
+    ]);
+    expect(cli("pool", input, "--out", file("pool.json"))).toBe(1);
+    expect(errors).toEqual([
+      `${file("pool.json")} $.scores[1].prompt_version_hash: prompt_version_hash b4c5d6e ≠ pool a3f8b2c`,
+    ]);
+    expect(fs.existsSync(file("pool.json"))).toBe(false);
+  });
+
+  it("curves and grades a pool whose map leaves a dimension uncovered", () => {
+    const unmeasured = "Iterative-Optimization";
+    const map = {
+      ...dimMapStored,
+      entries: dimMapStored.entries.map((e) => ({
+        ...e,
+        dimensions: e.dimensions.filter((d) => d !== unmeasured),
+      })),
+    };
+    const scores = writeJsonl(
+      "scores.jsonl",
+      [1, 2, 3].map((n) => {
+        const stored = makeScoresStored(n, [0.2 * n, 0.2 * n, 0.2 * n]);
+        return {
+          ...stored,
+          dimension_map: map,
+          problem_scores: stored.problem_scores.map((p) => ({
+            ...p,
+            dimension_scores: { ...p.dimension_scores, [unmeasured]: null },
+          })),
+        };
+      })
+    );
+    const steps = [
+      ["pool", scores, "--out", file("pool.json")],
+      ["curve", file("pool.json"), "--out", file("curve.json")],
+      [
+        "apply",
+        scores,
+        "--curve",
+        file("curve.json"),
+        "--out",
+        file("curved.jsonl"),
+      ],
+    ];
+    for (const step of steps) {
+      expect(cli(...step), errors.join("\n")).toBe(0);
+    }
+    expect(logs[1]).toMatch(/0 of 11 categories fell back, 1 unmeasured →/);
+    const stored = JSON.parse(fs.readFileSync(file("curve.json"), "utf8"));
+    expect(stored.ability_curves[unmeasured]).toBeNull();
+    expect(stored.sampling.abilities[unmeasured]).toEqual({
+      sample_size: 0,
+      source: "unmeasured",
+    });
+  });
+
+  it("decodes --method as a CurveMethod", () => {
+    const scores = writeJsonl(
+      "scores.jsonl",
+      [1, 2, 3].map((n) => makeScoresStored(n, [0.5, 0.5, 0.5]))
+    );
+    cli("pool", scores, "--out", file("pool.json"));
+    const method = '{"type":"absolute","thresholds":[0.9,0.7,0.5]}';
+    expect(
+      cli("curve", file("pool.json"), "--out", file("c.json"), "--method", method)
+    ).toBe(0);
+    const stored = JSON.parse(fs.readFileSync(file("c.json"), "utf8"));
+    expect(decodeCurve(stored).totals.final_total).toEqual({
+      A: 0.9,
+      B: 0.7,
+      C: 0.5,
+    });
+
+    const bad = '{"type":"absolute","thresholds":[0.5,0.7,0.9]}';
+    expect(
+      cli("curve", file("pool.json"), "--out", file("c.json"), "--method", bad)
+    ).toBe(1);
+    expect(errors[0]).toMatch(/^--method \$\.thresholds: Must be in descending/);
+  });
+});
+
+describe("run", () => {
+  it("writes every phase's output into --out-dir", () => {
+    const input = writeJsonl("reports.jsonl", reports);
+    const out = file("out");
+    expect(
+      cli(...withMap(["run", input, "--out-dir", out, ...extractArgs])),
+      errors.join("\n")
+    ).toBe(0);
+    expect(fs.readdirSync(out).sort()).toEqual([
+      "curve.json",
+      "curved-reports.jsonl",
+      "curved-scores.jsonl",
+      "pool.json",
+      "scores.jsonl",
+    ]);
+    expect(readJsonl("out/curved-reports.jsonl")).toHaveLength(4);
+    expect(logs.at(-1)).toBe(
+      `Wrote scores, pool, curve, curved scores and reports → ${out}`
+    );
+  });
+
+  it("aggregates with the strategy declared in --event-config", () => {
+    const input = writeJsonl("reports.jsonl", reports);
+    const aggregation = {
+      strategy_id: "arithmetic",
+      abilities: { type: "mean" },
+      total_problem: { type: "mean" },
+      total_ability: { type: "mean" },
+      final_total: { type: "arithmetic_mean" },
+    };
+    fs.writeFileSync(
+      file("event.json"),
+      JSON.stringify({
+        event_id: EVENT_ID,
+        name: "Spring 2024 final",
+        problem_ids: dimMapStored.entries.map((e) => e.problem_id),
+        language: "zh",
+        prompt_version_hash: PROMPT_HASH,
+        aggregation,
+      })
+    );
+    const out = file("out");
+    const args = ["run", input, "--out-dir", out, ...extractArgs];
+    expect(
+      cli(...withMap([...args, "--event-config", file("event.json")])),
+      errors.join("\n")
+    ).toBe(0);
+    const curve = JSON.parse(fs.readFileSync(file("out/curve.json"), "utf8"));
+    expect(curve.aggregation).toEqual({
+      ...aggregation,
+      unmeasured_abilities: "exclude",
+    });
+  });
+
+  it("stops before pooling when a report fails", () => {
+    const input = writeJsonl("reports.jsonl", [...reports, { metadata: {} }]);
+    const out = file("out");
+    expect(
+      cli(...withMap(["run", input, "--out-dir", out, ...extractArgs]))
+    ).toBe(1);
+    expect(errors[0]).toMatch(new RegExp(`^${input}:5 \\$\\.metadata\\.`));
+    expect(fs.existsSync(out)).toBe(false);
+  });
+
+  it("writes nothing when a later phase fails", () => {
+    const input = writeJsonl("reports.jsonl", reports);
+    const out = file("out");
+    const policy =
+      '{"min_sample_size":{"problem":10,"ability":1,"total":1},"fallback":{"type":"reject"}}';
+    expect(
+      cli(
+        ...withMap(["run", input, "--out-dir", out, ...extractArgs]),
+        "--sample-policy",
+        policy
+      )
+    ).toBe(1);
+    expect(errors[0]).toMatch(/has 4 pooled values, minimum is 10/);
+    expect(fs.existsSync(out)).toBe(false);
+  });
+});
+
+describe("inspect", () => {
+  it("prints a table per record, or JSON with --json", () => {
+    const input = writeJsonl("scores.jsonl", [
+      makeScoresStored(1, [0.5, 0.5, 0.5]),
+      makeScoresStored(2, [0.5, 0.5, 0.5]),
+    ]);
+    expect(cli("inspect", input)).toBe(0);
+    expect(logs[0].match(/^JSONScores /gm)).toHaveLength(2);
+
+    expect(cli("inspect", input, "--json")).toBe(0);
+    const inspections = JSON.parse(logs[1]);
+    expect(inspections.map((i: { participant_id: string }) => i.participant_id))
+      .toEqual(["student-0001", "student-0002"]);
+  });
+});
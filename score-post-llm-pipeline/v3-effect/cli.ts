@@ -0,0 +1,859 @@
+/**
+ * Command-line tool — one subcommand per phase in pipeline-phases.md
+ *
+ *   validate <kind> <file...>  decode files against a v3 schema (kinds: scores,
+ *                              curved, pool, curve, dimension-map,
+ *                              event-config) or the v1 report schema (kind:
+ *                              report); warns about thinly covered dimensions
+ *                              in dimension maps
+ *   extract  <report...>       phase 3: v1 LLMReports → JSONScores
+ *   pool     <scores...>       phase 4: JSONScores → ScorePool
+ *   curve    <pool>            phase 4: ScorePool → Curve
+ *   apply    <scores...>       phase 5: JSONScores + Curve → CurvedScores
+ *   merge    <report...>       phase 6: LLMReports + CurvedScores → CurvedReports
+ *   run      <report...>       phases 3–6 end to end into --out-dir
+ *   inspect  <scores...>       print JSONScores / CurvedScores with derived
+ *                              values, formulas and grades
+ *
+ * Record files are JSON (one value or an array of values) or JSONL (one value
+ * per line). Every input is decoded with decodeWithIssues, so a broken record
+ * is reported field by field, prefixed with its file and line. A record that
+ * fails is reported and skipped; the rest are still written, and the command
+ * exits 1. `pool`, `curve` and `run` need every input to succeed and write
+ * nothing otherwise; `run` writes its --out-dir only once merge succeeds.
+ *
+ * Exit codes: 0 success, 1 validation or pipeline failure, 2 usage error.
+ *
+ * Run: npm run cli -- <command> [options]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import { Data, DateTime, Schema } from "effect";
+import {
+  Curve,
+  CurveMethod,
+  CurvedScores,
+  EventConfig,
+  JSONScores,
+  ProblemDimensionMap,
+  PromptVersionHash,
+  SamplePolicy,
+  ScorePool,
+  type CategorySampling,
+  type LetterGrade,
+} from "./schemas.js";
+import {
+  DecodeError,
+  decodeWithIssues,
+  renderIssuesJson,
+  renderIssuesText,
+  zodDecodeIssues,
+  type DecodeIssue,
+} from "./decode-errors.js";
+import { extractScores, ExtractionError } from "./extract.js";
+import { repairReport, wasRepaired } from "./repair.js";
+import { checkReportAggregates } from "./report-consistency.js";
+import { dimensionCoverage } from "./coverage.js";
+import { computeCurve, CurveComputationError } from "./curve.js";
+import { applyCurve, CurveApplicationError } from "./apply-curve.js";
+import { mergeCurvedScores, MergeError } from "./merge.js";
+import {
+  inspectCurvedScores,
+  inspectScores,
+  renderInspection,
+} from "./inspect.js";
+import {
+  LLMReportSchema,
+  type CurvedReport,
+  type LLMReport,
+} from "../v1-vitest/schema-verify-v1.js";
+
+/** Where the CLI prints; tests pass a collector instead of the console */
+export interface CliOutput {
+  readonly log: (line: string) => void;
+  readonly error: (line: string) => void;
+}
+
+const consoleOutput: CliOutput = {
+  log: (line) => console.log(line),
+  error: (line) => console.error(line),
+};
+
+/** Bad arguments → exit 2 */
+export class CliUsageError extends Data.TaggedError("CliUsageError")<{
+  readonly message: string;
+}> {}
+
+/** Unreadable input or a failed phase → exit 1 */
+export class CliFailure extends Data.TaggedError("CliFailure")<{
+  readonly message: string;
+}> {}
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  validate <kind> <file...>  [--json]
+      kind: report | scores | curved | pool | curve | dimension-map |
+            event-config
+  extract <report...>  --out <file> --prompt-hash <hash>
+                       --dimension-map <file> [--event-config <file>]
+                       [--repair]
+  pool <scores...>     --out <file> [--label <text>] [--exclude-repaired]
+  curve <pool>         --out <file> [--label <text>] [--method <json>]
+                       [--sample-policy <json>]
+  apply <scores...>    --out <file> --curve <file> [--override]
+                       [--allow-language-difference]
+  merge <report...>    --out <file> --curved <file>
+  run <report...>      --out-dir <dir> --prompt-hash <hash>
+                       --dimension-map <file> [--event-config <file>]
+                       [--repair] [--label <text>]
+                       [--method <json>] [--sample-policy <json>]
+                       [--override] [--allow-language-difference]
+  inspect <scores...>  [--json] [--color | --no-color]
+      JSONScores or CurvedScores, detected per record
+
+Record files are .json (a value or an array) or .jsonl (one value per line).`;
+
+// =============================================================================
+// Files
+// =============================================================================
+
+/** One input value and where it came from: `file`, `file[2]` or `file:3` */
+interface SourcedRecord {
+  readonly source: string;
+  readonly value: unknown;
+}
+
+const parseJson = (text: string, source: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new CliFailure({
+      message: `${source}: invalid JSON (${(e as Error).message})`,
+    });
+  }
+};
+
+const readText = (file: string): string => {
+  try {
+    return fs.readFileSync(file, "utf8");
+  } catch (e) {
+    throw new CliFailure({
+      message: `${file}: cannot read (${(e as Error).message})`,
+    });
+  }
+};
+
+const isJsonl = (file: string) => path.extname(file) === ".jsonl";
+
+const readRecords = (files: readonly string[]): SourcedRecord[] =>
+  files.flatMap((file) => {
+    const text = readText(file);
+    if (isJsonl(file)) {
+      return text.split("\n").flatMap((line, i) => {
+        const source = `${file}:${i + 1}`;
+        return line.trim() === ""
+          ? []
+          : [{ source, value: parseJson(line, source) }];
+      });
+    }
+    const value = parseJson(text, file);
+    return Array.isArray(value)
+      ? value.map((v, i) => ({ source: `${file}[${i}]`, value: v }))
+      : [{ source: file, value }];
+  });
+
+const readSingle = (file: string): SourcedRecord => ({
+  source: file,
+  value: parseJson(readText(file), file),
+});
+
+const writeText = (file: string, text: string) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, text);
+};
+
+const writeRecords = (file: string, values: readonly unknown[]) =>
+  writeText(
+    file,
+    isJsonl(file)
+      ? values.map((v) => `${JSON.stringify(v)}\n`).join("")
+      : `${JSON.stringify(values, null, 2)}\n`
+  );
+
+const writeSingle = (file: string, value: unknown) =>
+  writeText(file, `${JSON.stringify(value, null, 2)}\n`);
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/** v1 reports are zod; failures become the same DecodeError as v3 schemas */
+const decodeReport = (input: unknown, source?: string): LLMReport => {
+  const result = LLMReportSchema.safeParse(input);
+  if (result.success) return result.data;
+  const issues = zodDecodeIssues(result.error, input);
+  throw new DecodeError({ message: renderIssuesText(issues, source), issues });
+};
+
+const DECODERS = {
+  report: decodeReport,
+  scores: decodeWithIssues(JSONScores),
+  curved: decodeWithIssues(CurvedScores),
+  pool: decodeWithIssues(ScorePool),
+  curve: decodeWithIssues(Curve),
+  "dimension-map": decodeWithIssues(ProblemDimensionMap),
+  "event-config": decodeWithIssues(EventConfig),
+} as const;
+type RecordKind = keyof typeof DECODERS;
+
+const isRecordKind = (kind: string): kind is RecordKind =>
+  Object.hasOwn(DECODERS, kind);
+
+const encodeScores = Schema.encodeSync(JSONScores);
+const encodeCurvedScores = Schema.encodeSync(CurvedScores);
+const encodePool = Schema.encodeSync(ScorePool);
+const encodeCurve = Schema.encodeSync(Curve);
+
+/** A JSON option value (`--method '{"type":"absolute",...}'`) */
+const decodeOption = <A, I>(
+  schema: Schema.Schema<A, I, never>,
+  name: string,
+  raw: string | undefined
+): A | undefined =>
+  raw === undefined
+    ? undefined
+    : decodeWithIssues(schema)(parseJson(raw, `--${name}`), `--${name}`);
+
+// =============================================================================
+// Batches — one failure per record, the rest go on
+// =============================================================================
+
+/** Errors that describe bad input rather than a bug in the CLI */
+const isPipelineError = (
+  e: unknown
+): e is
+  | DecodeError
+  | ExtractionError
+  | CurveComputationError
+  | CurveApplicationError
+  | MergeError
+  | CliFailure =>
+  e instanceof DecodeError ||
+  e instanceof ExtractionError ||
+  e instanceof CurveComputationError ||
+  e instanceof CurveApplicationError ||
+  e instanceof MergeError ||
+  e instanceof CliFailure;
+
+/** DecodeError messages already carry the source on every line */
+const failureLine = (source: string, e: Error): string =>
+  e instanceof DecodeError ? e.message : `${source}: ${e.message}`;
+
+/** Prefix a DecodeError thrown without a source, e.g. by extractScores */
+const withSource = <A>(source: string, f: () => A): A => {
+  try {
+    return f();
+  } catch (e) {
+    if (!(e instanceof DecodeError)) throw e;
+    throw new DecodeError({
+      message: renderIssuesText(e.issues, source),
+      issues: e.issues,
+    });
+  }
+};
+
+interface Batch<A> {
+  readonly results: A[];
+  readonly failures: string[];
+}
+
+const each = <R extends { readonly source: string }, A>(
+  records: readonly R[],
+  f: (record: R) => A
+): Batch<A> => {
+  const results: A[] = [];
+  const failures: string[] = [];
+  for (const record of records) {
+    try {
+      results.push(f(record));
+    } catch (e) {
+      if (!isPipelineError(e)) throw e;
+      failures.push(failureLine(record.source, e));
+    }
+  }
+  return { results, failures };
+};
+
+const reportFailures = (out: CliOutput, failures: readonly string[]) =>
+  failures.forEach((line) => out.error(line));
+
+const required = (value: string | undefined, name: string): string => {
+  if (value === undefined) {
+    throw new CliUsageError({ message: `Missing required option --${name}` });
+  }
+  return value;
+};
+
+/** --prompt-hash is checked before any report is read */
+const promptHash = (value: string | undefined): string => {
+  const hash = required(value, "prompt-hash");
+  if (!Schema.is(PromptVersionHash)(hash)) {
+    throw new CliUsageError({
+      message: `--prompt-hash "${hash}" is not a git commit hash (7–40 lowercase hex characters)`,
+    });
+  }
+  return hash;
+};
+
+const inputs = (positionals: readonly string[], what: string): string[] => {
+  if (positionals.length === 0) {
+    throw new CliUsageError({ message: `Expected at least one ${what} file` });
+  }
+  return [...positionals];
+};
+
+// =============================================================================
+// Phases — shared by the single-phase commands and `run`
+// =============================================================================
+
+interface ExtractPhaseOptions {
+  readonly promptHash: string;
+  readonly dimensionMapFile: string;
+  /** EventConfig file whose aggregation strategy the scores declare */
+  readonly eventConfigFile?: string;
+  readonly repair: boolean;
+}
+
+interface Extracted {
+  readonly source: string;
+  readonly report: LLMReport;
+  readonly scores: JSONScores;
+  readonly mismatches: number;
+}
+
+const extractPhase = (
+  records: readonly SourcedRecord[],
+  options: ExtractPhaseOptions
+): Batch<Extracted> => {
+  const map = decodeWithIssues(ProblemDimensionMap)(
+    readSingle(options.dimensionMapFile).value,
+    options.dimensionMapFile
+  );
+  const aggregation =
+    options.eventConfigFile === undefined
+      ? undefined
+      : DECODERS["event-config"](
+          readSingle(options.eventConfigFile).value,
+          options.eventConfigFile
+        ).aggregation;
+  return each(records, ({ source, value }) => {
+    const { report: raw, log } = options.repair
+      ? repairReport(value)
+      : { report: value, log: [] };
+    const report = decodeReport(raw, source);
+    const scores = withSource(source, () =>
+      extractScores(report, {
+        promptVersionHash: options.promptHash,
+        dimensionMap: map,
+        repairs: log,
+        aggregation,
+      })
+    );
+    const mismatches = checkReportAggregates(report, {
+      aggregation,
+      dimensionMap: map,
+    }).length;
+    return { source, report, scores, mismatches };
+  });
+};
+
+const extractSummary = (batch: Batch<Extracted>): string => {
+  const { results, failures } = batch;
+  const repaired = results.filter((r) => wasRepaired(r.scores)).length;
+  const mismatched = results.filter((r) => r.mismatches > 0).length;
+  return `Extracted ${results.length} of ${results.length + failures.length} reports (${repaired} repaired, ${mismatched} with aggregates that disagree with the formulas)`;
+};
+
+interface PoolPhaseOptions {
+  readonly label?: string;
+  readonly excludeRepaired: boolean;
+}
+
+const poolPhase = (
+  scores: readonly JSONScores[],
+  options: PoolPhaseOptions,
+  source: string
+): ScorePool => {
+  const pooled = options.excludeRepaired
+    ? scores.filter((s) => !wasRepaired(s))
+    : scores;
+  if (pooled.length === 0) {
+    throw new CliFailure({ message: "No scores to pool" });
+  }
+  const encoded = pooled.map((s) => encodeScores(s));
+  const first = encoded[0];
+  const events = [...new Set(encoded.map((s) => s.event_id))];
+  return decodeWithIssues(ScorePool)(
+    {
+      pool_id: randomUUID(),
+      label: options.label ?? `${events.join(" + ")} pool`,
+      source_event_ids: events,
+      prompt_version_hash: first.prompt_version_hash,
+      problem_ids: first.dimension_map.entries.map((e) => e.problem_id),
+      dimension_map: first.dimension_map,
+      aggregation: first.aggregation,
+      created_at: DateTime.formatIso(DateTime.unsafeNow()),
+      scores: encoded,
+    },
+    source
+  );
+};
+
+const poolSummary = (pool: ScorePool, excluded: number): string =>
+  `Pooled ${pool.scores.length} scores from ${pool.source_event_ids.join(", ")}${excluded > 0 ? ` (${excluded} repaired excluded)` : ""}`;
+
+interface CurvePhaseOptions {
+  readonly label?: string;
+  readonly method?: string;
+  readonly samplePolicy?: string;
+}
+
+const curvePhase = (pool: ScorePool, options: CurvePhaseOptions): Curve =>
+  computeCurve(pool, {
+    label: options.label,
+    method: decodeOption(CurveMethod, "method", options.method),
+    samplePolicy: decodeOption(
+      SamplePolicy,
+      "sample-policy",
+      options.samplePolicy
+    ),
+  });
+
+const curveSummary = (curve: Curve): string => {
+  const sampling = [
+    ...Object.values(curve.sampling.totals),
+    ...Object.values(curve.sampling.abilities),
+    ...Object.values(curve.sampling.problems),
+  ];
+  const count = (...sources: CategorySampling["source"][]) =>
+    sampling.filter((s) => sources.includes(s.source)).length;
+  const unmeasured = count("unmeasured");
+  return (
+    `Curve ${curve.curve_id} (${curve.method.type}) from ${curve.sample_size} participants, ${count("parent", "absolute")} of ${sampling.length} categories fell back` +
+    (unmeasured > 0 ? `, ${unmeasured} unmeasured` : "")
+  );
+};
+
+interface ApplyPhaseOptions {
+  readonly override: boolean;
+  readonly allowLanguageDifference: boolean;
+}
+
+const applySummary = (batch: Batch<CurvedScores>): string => {
+  const counts: Record<LetterGrade, number> = { A: 0, B: 0, C: 0, D: 0 };
+  for (const c of batch.results) counts[c.total_grades.final_total_grade]++;
+  const total = batch.results.length + batch.failures.length;
+  return `Graded ${batch.results.length} of ${total} scores (final: A ${counts.A}, B ${counts.B}, C ${counts.C}, D ${counts.D})`;
+};
+
+/** Curved scores by event and participant, the key a report is merged on */
+const curvedKey = (eventId: string, participantId: string) =>
+  `${eventId}/${participantId}`;
+
+const mergePhase = (
+  reports: readonly { source: string; report: LLMReport }[],
+  curved: readonly CurvedScores[]
+): Batch<CurvedReport> => {
+  const byParticipant = new Map(
+    curved.map((c) => [
+      curvedKey(c.source.event_id, c.source.participant_id),
+      c,
+    ])
+  );
+  return each(reports, ({ report }) => {
+    const { eventId, participantId } = report.metadata;
+    const match = byParticipant.get(curvedKey(eventId, participantId));
+    if (match === undefined) {
+      throw new CliFailure({
+        message: `No curved scores for participant ${participantId} in ${eventId}`,
+      });
+    }
+    return mergeCurvedScores(report, match);
+  });
+};
+
+const mergeSummary = (batch: Batch<CurvedReport>): string =>
+  `Merged ${batch.results.length} of ${batch.results.length + batch.failures.length} reports`;
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+type Command = (args: readonly string[], out: CliOutput) => number;
+
+const validate: Command = (args, out) => {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: { json: { type: "boolean", default: false } },
+    allowPositionals: true,
+  });
+  const [kind, ...files] = positionals;
+  if (kind === undefined || !isRecordKind(kind)) {
+    throw new CliUsageError({
+      message: `Expected a kind: ${Object.keys(DECODERS).join(", ")}`,
+    });
+  }
+  const decode: (input: unknown, source?: string) => unknown = DECODERS[kind];
+  const invalid: { source: string; issues: readonly DecodeIssue[] }[] = [];
+  const warnings: string[] = [];
+  const batch = each(readRecords(inputs(files, kind)), ({ source, value }) => {
+    try {
+      const decoded = decode(value, source);
+      if (kind === "dimension-map") {
+        const coverage = dimensionCoverage(decoded as ProblemDimensionMap);
+        for (const w of coverage.warnings) {
+          warnings.push(`${source}: warning: ${w.message}`);
+        }
+      }
+      return decoded;
+    } catch (e) {
+      if (e instanceof DecodeError) invalid.push({ source, issues: e.issues });
+      throw e;
+    }
+  });
+  if (values.json) {
+    out.log(
+      JSON.stringify(
+        invalid.map((i) => ({
+          source: i.source,
+          issues: JSON.parse(renderIssuesJson(i.issues)),
+        })),
+        null,
+        2
+      )
+    );
+  } else {
+    reportFailures(out, batch.failures);
+    reportFailures(out, warnings);
+    out.log(
+      `Validated ${batch.results.length + batch.failures.length} ${kind} records: ${batch.results.length} valid, ${batch.failures.length} invalid`
+    );
+  }
+  return batch.failures.length > 0 ? 1 : 0;
+};
+
+const extract: Command = (args, out) => {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: {
+      out: { type: "string" },
+      "prompt-hash": { type: "string" },
+      "dimension-map": { type: "string" },
+      "event-config": { type: "string" },
+      repair: { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const outFile = required(values.out, "out");
+  const hash = promptHash(values["prompt-hash"]);
+  const batch = extractPhase(readRecords(inputs(positionals, "report")), {
+    promptHash: hash,
+    dimensionMapFile: required(values["dimension-map"], "dimension-map"),
+    eventConfigFile: values["event-config"],
+    repair: values.repair,
+  });
+  writeRecords(
+    outFile,
+    batch.results.map((r) => encodeScores(r.scores))
+  );
+  reportFailures(out, batch.failures);
+  out.log(`${extractSummary(batch)} → ${outFile}`);
+  return batch.failures.length > 0 ? 1 : 0;
+};
+
+const pool: Command = (args, out) => {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: {
+      out: { type: "string" },
+      label: { type: "string" },
+      "exclude-repaired": { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const outFile = required(values.out, "out");
+  const batch = each(
+    readRecords(inputs(positionals, "scores")),
+    ({ source, value }) => DECODERS.scores(value, source)
+  );
+  if (batch.failures.length > 0) {
+    reportFailures(out, batch.failures);
+    out.log(`Not pooled: ${batch.failures.length} scores are invalid`);
+    return 1;
+  }
+  const result = poolPhase(
+    batch.results,
+    {
+      label: values.label,
+      excludeRepaired: values["exclude-repaired"],
+    },
+    outFile
+  );
+  writeSingle(outFile, encodePool(result));
+  out.log(
+    `${poolSummary(result, batch.results.length - result.scores.length)} → ${outFile}`
+  );
+  return 0;
+};
+
+const curve: Command = (args, out) => {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: {
+      out: { type: "string" },
+      label: { type: "string" },
+      method: { type: "string" },
+      "sample-policy": { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const outFile = required(values.out, "out");
+  const [poolFile] = inputs(positionals, "pool");
+  const { source, value } = readSingle(poolFile);
+  const result = curvePhase(DECODERS.pool(value, source), {
+    label: values.label,
+    method: values.method,
+    samplePolicy: values["sample-policy"],
+  });
+  writeSingle(outFile, encodeCurve(result));
+  out.log(`${curveSummary(result)} → ${outFile}`);
+  return 0;
+};
+
+const apply: Command = (args, out) => {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: {
+      out: { type: "string" },
+      curve: { type: "string" },
+      override: { type: "boolean", default: false },
+      "allow-language-difference": { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const outFile = required(values.out, "out");
+  const curveFile = readSingle(required(values.curve, "curve"));
+  const curveValue = DECODERS.curve(curveFile.value, curveFile.source);
+  const options: ApplyPhaseOptions = {
+    override: values.override,
+    allowLanguageDifference: values["allow-language-difference"],
+  };
+  const batch = each(
+    readRecords(inputs(positionals, "scores")),
+    ({ source, value }) =>
+      applyCurve(DECODERS.scores(value, source), curveValue, options)
+  );
+  writeRecords(
+    outFile,
+    batch.results.map((c) => encodeCurvedScores(c))
+  );
+  reportFailures(out, batch.failures);
+  out.log(`${applySummary(batch)} → ${outFile}`);
+  return batch.failures.length > 0 ? 1 : 0;
+};
+
+const merge: Command = (args, out) => {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: {
+      out: { type: "string" },
+      curved: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const outFile = required(values.out, "out");
+  const curved = each(
+    readRecords([required(values.curved, "curved")]),
+    ({ source, value }) => DECODERS.curved(value, source)
+  );
+  const reports = each(
+    readRecords(inputs(positionals, "report")),
+    ({ source, value }) => ({ source, report: decodeReport(value, source) })
+  );
+  const batch = mergePhase(reports.results, curved.results);
+  writeRecords(outFile, batch.results);
+  const failures = [...curved.failures, ...reports.failures, ...batch.failures];
+  reportFailures(out, failures);
+  out.log(
+    `Merged ${batch.results.length} of ${reports.results.length + reports.failures.length} reports → ${outFile}`
+  );
+  return failures.length > 0 ? 1 : 0;
+};
+
+const run: Command = (args, out) => {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: {
+      "out-dir": { type: "string" },
+      "prompt-hash": { type: "string" },
+      "dimension-map": { type: "string" },
+      "event-config": { type: "string" },
+      repair: { type: "boolean", default: false },
+      label: { type: "string" },
+      method: { type: "string" },
+      "sample-policy": { type: "string" },
+      override: { type: "boolean", default: false },
+      "allow-language-difference": { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const outDir = required(values["out-dir"], "out-dir");
+  const file = (name: string) => path.join(outDir, name);
+  const hash = promptHash(values["prompt-hash"]);
+
+  // Phase 3
+  const extracted = extractPhase(readRecords(inputs(positionals, "report")), {
+    promptHash: hash,
+    dimensionMapFile: required(values["dimension-map"], "dimension-map"),
+    eventConfigFile: values["event-config"],
+    repair: values.repair,
+  });
+  reportFailures(out, extracted.failures);
+  out.log(extractSummary(extracted));
+  if (extracted.failures.length > 0) return 1;
+  const scores = extracted.results.map((r) => r.scores);
+
+  // Phase 4
+  const scorePool = poolPhase(
+    scores,
+    { label: values.label, excludeRepaired: false },
+    file("pool.json")
+  );
+  out.log(poolSummary(scorePool, 0));
+  const computed = curvePhase(scorePool, {
+    label: values.label,
+    method: values.method,
+    samplePolicy: values["sample-policy"],
+  });
+  out.log(curveSummary(computed));
+
+  // Phase 5
+  const options: ApplyPhaseOptions = {
+    override: values.override,
+    allowLanguageDifference: values["allow-language-difference"],
+  };
+  const applied = each(extracted.results, ({ scores }) =>
+    applyCurve(scores, computed, options)
+  );
+  reportFailures(out, applied.failures);
+  out.log(applySummary(applied));
+  if (applied.failures.length > 0) return 1;
+
+  // Phase 6
+  const merged = mergePhase(extracted.results, applied.results);
+  reportFailures(out, merged.failures);
+  out.log(mergeSummary(merged));
+  if (merged.failures.length > 0) return 1;
+
+  // Every phase succeeded: only now is --out-dir written
+  writeRecords(file("scores.jsonl"), scores.map((s) => encodeScores(s)));
+  writeSingle(file("pool.json"), encodePool(scorePool));
+  writeSingle(file("curve.json"), encodeCurve(computed));
+  writeRecords(
+    file("curved-scores.jsonl"),
+    applied.results.map((c) => encodeCurvedScores(c))
+  );
+  writeRecords(file("curved-reports.jsonl"), merged.results);
+  out.log(`Wrote scores, pool, curve, curved scores and reports → ${outDir}`);
+  return 0;
+};
+
+const inspect: Command = (args, out) => {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    options: {
+      json: { type: "boolean", default: false },
+      color: { type: "boolean", default: false },
+      "no-color": { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const color =
+    !values["no-color"] &&
+    (values.color || (process.stdout.isTTY && !process.env.NO_COLOR));
+  const batch = each(
+    readRecords(inputs(positionals, "scores")),
+    ({ source, value }) =>
+      typeof value === "object" && value !== null && "curved_scores_id" in value
+        ? inspectCurvedScores(DECODERS.curved(value, source))
+        : inspectScores(DECODERS.scores(value, source))
+  );
+  if (values.json) {
+    out.log(JSON.stringify(batch.results, null, 2));
+  } else {
+    out.log(
+      batch.results.map((i) => renderInspection(i, { color })).join("\n\n")
+    );
+  }
+  reportFailures(out, batch.failures);
+  return batch.failures.length > 0 ? 1 : 0;
+};
+
+const COMMANDS: Record<string, Command> = {
+  validate,
+  extract,
+  pool,
+  curve,
+  apply,
+  merge,
+  run,
+  inspect,
+};
+
+// =============================================================================
+// Entry point
+// =============================================================================
+
+/** Run one command; returns the process exit code */
+export const runCli = (
+  argv: readonly string[],
+  out: CliOutput = consoleOutput
+): number => {
+  const [name, ...args] = argv;
+  if (name === undefined || name === "help" || name === "--help") {
+    out.log(USAGE);
+    return name === undefined ? 2 : 0;
+  }
+  const command = Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+  if (command === undefined) {
+    out.error(`Unknown command "${name}"\n\n${USAGE}`);
+    return 2;
+  }
+  try {
+    return command(args, out);
+  } catch (e) {
+    if (e instanceof CliUsageError || isParseArgsError(e)) {
+      out.error(`${(e as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (isPipelineError(e)) {
+      out.error(e.message);
+      return 1;
+    }
+    throw e;
+  }
+};
+
+/** util.parseArgs rejects unknown options with ERR_PARSE_ARGS_* codes */
+const isParseArgsError = (e: unknown): boolean =>
+  e instanceof TypeError &&
+  String((e as { code?: unknown }).code).startsWith("ERR_PARSE_ARGS");
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
@@ -0,0 +1,264 @@
+import { describe, it, expect } from "vitest";
+import { decodeJSONScores, decodeScorePool } from "./schemas.js";
+import { computeCurve } from "./curve.js";
+import {
+  checkCompatibility,
+  isBlocking,
+  matchProblems,
+} from "./compatibility.js";
+import { applyCurve, CurveApplicationError } from "./apply-curve.js";
+import {
+  digit,
+  dimMapStored,
+  makePoolStored,
+  makeScoresStored,
+} from "./test-fixtures.js";
+
+const curve = computeCurve(
+  decodeScorePool(
+    makePoolStored([
+      makeScoresStored(1, [0.2, 0.3, 0.4]),
+      makeScoresStored(2, [0.8, 0.9, 1.0]),
+    ])
+  )
+);
+
+const stored = makeScoresStored(3, [0.5, 0.5, 0.5]);
+
+describe("checkCompatibility", () => {
+  it("accepts scores from the curve's own pool setup", () => {
+    expect(checkCompatibility(decodeJSONScores(stored), curve)).toEqual({
+      status: "compatible",
+    });
+  });
+
+  it("requires override for a prompt version mismatch", () => {
+    const scores = decodeJSONScores({
+      ...stored,
+      prompt_version_hash: "b4c5d6e",
+    });
+    expect(checkCompatibility(scores, curve)).toEqual({
+      status: "requires_override",
+      differences: [
+        { _tag: "PromptVersionMismatch", curve: "a3f8b2c", scores: "b4c5d6e" },
+      ],
+    });
+  });
+
+  it("requires override for a different map_id with equal entries", () => {
+    const map_id = "11111111-2222-4333-8444-555555555555";
+    const scores = decodeJSONScores({
+      ...stored,
+      dimension_map: { ...dimMapStored, map_id },
+    });
+    expect(checkCompatibility(scores, curve)).toEqual({
+      status: "requires_override",
+      differences: [
+        {
+          _tag: "DimensionMapIdMismatch",
+          curve: dimMapStored.map_id,
+          scores: map_id,
+        },
+      ],
+    });
+  });
+
+  it("reports problems missing on either side as blocking", () => {
+    const entries = dimMapStored.entries.map((e, i) =>
+      i === 2 ? { ...e, problem_id: { digit: "002000", name: "new" } } : e
+    );
+    const scores = decodeJSONScores(
+      makeScoresStored(3, [0.5, 0.5, 0.5], undefined, {
+        ...dimMapStored,
+        entries,
+      })
+    );
+    const result = checkCompatibility(scores, curve);
+    expect(result.status).toBe("incompatible");
+    expect(result.status !== "compatible" && result.differences).toEqual([
+      { _tag: "ProblemMissingFromCurve", digit: "002000" },
+      { _tag: "ProblemMissingFromScores", digit: "001001" },
+    ]);
+  });
+
+  it("reports differing dimension-map entries per problem", () => {
+    const entries = dimMapStored.entries.map((e, i) =>
+      i === 0 ? { ...e, dimensions: e.dimensions.slice(0, 2) } : e
+    );
+    const scores = decodeJSONScores(
+      makeScoresStored(3, [0.5, 0.5, 0.5], undefined, {
+        ...dimMapStored,
+        entries,
+      })
+    );
+    const result = checkCompatibility(scores, curve);
+    expect(result.status).toBe("incompatible");
+    expect(result.status !== "compatible" && result.differences).toEqual([
+      {
+        _tag: "DimensionMapEntryMismatch",
+        digit: "000340",
+        curve_digit: "000340",
+        curve_dimensions: dimMapStored.entries[0].dimensions,
+        scores_dimensions: dimMapStored.entries[0].dimensions.slice(0, 2),
+      },
+    ]);
+  });
+
+  it("reports differing edge weights as blocking", () => {
+    const entries = dimMapStored.entries.map((e, i) =>
+      i === 2 ? { ...e, weights: { "Verification-Confirmation": 2 } } : e
+    );
+    const scores = decodeJSONScores({
+      ...stored,
+      dimension_map: { ...dimMapStored, entries },
+    });
+    const result = checkCompatibility(scores, curve);
+    expect(result.status).toBe("incompatible");
+    expect(result.status !== "compatible" && result.differences).toEqual([
+      {
+        _tag: "DimensionWeightMismatch",
+        digit: "001001",
+        curve_digit: "001001",
+        dimension: "Verification-Confirmation",
+        curve_weight: 1,
+        scores_weight: 2,
+      },
+    ]);
+  });
+
+  it("classifies only problem and dimension-map differences as blocking", () => {
+    const hash = curve.prompt_version_hash;
+    const map_id = curve.dimension_map.map_id;
+    expect(
+      isBlocking({ _tag: "PromptVersionMismatch", curve: hash, scores: hash })
+    ).toBe(false);
+    expect(
+      isBlocking({ _tag: "DimensionMapIdMismatch", curve: map_id, scores: map_id })
+    ).toBe(false);
+    expect(
+      isBlocking({ _tag: "ProblemMissingFromCurve", digit: digit("000340") })
+    ).toBe(true);
+  });
+});
+
+describe("aggregation strategy", () => {
+  it("blocks scores whose totals use other formulas", () => {
+    const scores = decodeJSONScores({
+      ...stored,
+      aggregation: {
+        strategy_id: "arithmetic",
+        abilities: { type: "mean" },
+        total_problem: { type: "mean" },
+        total_ability: { type: "mean" },
+        final_total: { type: "arithmetic_mean" },
+      },
+    });
+    const result = checkCompatibility(scores, curve);
+    expect(result).toEqual({
+      status: "incompatible",
+      differences: [
+        {
+          _tag: "AggregationMismatch",
+          curve: "default-exclude-unmeasured",
+          scores: "arithmetic",
+        },
+      ],
+    });
+    expect(() => applyCurve(scores, curve, { override: true })).toThrow(
+      CurveApplicationError
+    );
+  });
+});
+
+describe("language bridging", () => {
+  /** Rewrite every zh digit (…0) to its en variant (…1) */
+  const toEnglish = <T>(value: T): T =>
+    JSON.parse(JSON.stringify(value).replace(/"(\d{5})0"/g, '"$11"'));
+
+  const english = decodeJSONScores(toEnglish(stored));
+
+  it("does not bridge languages unless asked", () => {
+    expect(checkCompatibility(english, curve).status).toBe("incompatible");
+  });
+
+  it("matches en problems to zh curve entries by base digits", () => {
+    expect(
+      checkCompatibility(english, curve, { allowLanguageDifference: true })
+    ).toEqual({ status: "compatible" });
+  });
+
+  it("prefers an exact digit match over a language variant", () => {
+    const matches = matchProblems(
+      [digit("000340"), digit("000341")],
+      [digit("000341"), digit("000340")],
+      { allowLanguageDifference: true }
+    );
+    expect([...matches]).toEqual([
+      ["000340", "000340"],
+      ["000341", "000341"],
+    ]);
+  });
+
+  it("refuses to bridge variants with different dimension-map entries", () => {
+    const map = toEnglish(dimMapStored);
+    const scores = decodeJSONScores(
+      makeScoresStored(3, [0.5, 0.5, 0.5], undefined, {
+        ...map,
+        entries: map.entries.map((e, i) =>
+          i === 1 ? { ...e, dimensions: e.dimensions.slice(1) } : e
+        ),
+      })
+    );
+    const result = checkCompatibility(scores, curve, {
+      allowLanguageDifference: true,
+    });
+    expect(result.status).toBe("incompatible");
+    expect(result.status !== "compatible" && result.differences).toEqual([
+      {
+        _tag: "DimensionMapEntryMismatch",
+        digit: "000501",
+        curve_digit: "000500",
+        curve_dimensions: dimMapStored.entries[1].dimensions,
+        scores_dimensions: dimMapStored.entries[1].dimensions.slice(1),
+      },
+    ]);
+  });
+
+  it("records the bridged problems in CurvedScores", () => {
+    // 001001 is already en in both, so it is an exact match, not a bridge
+    const curved = applyCurve(english, curve, { allowLanguageDifference: true });
+    expect(curved.language_bridges).toEqual([
+      { scores_digit: "000341", curve_digit: "000340" },
+      { scores_digit: "000501", curve_digit: "000500" },
+    ]);
+    expect(curved.problem_grades.map((g) => g.problem_id.digit)).toEqual([
+      "000341",
+      "000501",
+      "001001",
+    ]);
+  });
+
+  it("records no bridges for same-language application", () => {
+    const curved = applyCurve(decodeJSONScores(stored), curve, {
+      allowLanguageDifference: true,
+    });
+    expect(curved.language_bridges).toEqual([]);
+  });
+});
+
+describe("applyCurve compatibility gate", () => {
+  const scores = decodeJSONScores({
+    ...stored,
+    prompt_version_hash: "b4c5d6e",
+  });
+
+  it("refuses requires_override pairs by default", () => {
+    expect(() => applyCurve(scores, curve)).toThrow(CurveApplicationError);
+  });
+
+  it("applies requires_override pairs when overridden", () => {
+    expect(applyCurve(scores, curve, { override: true }).applied_curve_id).toBe(
+      curve.curve_id
+    );
+  });
+});
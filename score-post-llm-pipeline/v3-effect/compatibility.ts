@@ -0,0 +1,175 @@
+/**
+ * Compatibility check (ip-04 #17) — can this Curve grade this JSONScores?
+ *
+ * Differences are typed (see schemas.ts §10). The result status is derived
+ * from them:
+ *   any blocking difference      → incompatible
+ *   only non-blocking ones       → requires_override
+ *   none                         → compatible
+ */
+
+import { Array as Arr } from "effect";
+import {
+  ProblemMissingFromCurve,
+  ProblemMissingFromScores,
+  DimensionMapEntryMismatch,
+  DimensionWeightMismatch,
+  PromptVersionMismatch,
+  DimensionMapIdMismatch,
+  AggregationMismatch,
+  edgeWeights,
+  sameAggregation,
+  type CompatibilityDifference,
+  type CompatibilityResult,
+  type Curve,
+  type Dimension,
+  type JSONScores,
+  type ProblemDigitId,
+  type ProblemDimensionMap,
+} from "./schemas.js";
+
+const BLOCKING: ReadonlySet<CompatibilityDifference["_tag"]> = new Set([
+  "ProblemMissingFromCurve",
+  "ProblemMissingFromScores",
+  "DimensionMapEntryMismatch",
+  "DimensionWeightMismatch",
+  "AggregationMismatch",
+]);
+
+export const isBlocking = (difference: CompatibilityDifference): boolean =>
+  BLOCKING.has(difference._tag);
+
+/** Mapped dimensions per problem digit */
+const dimensionsByDigit = (
+  map: ProblemDimensionMap
+): ReadonlyMap<string, readonly Dimension[]> =>
+  new Map(map.entries.map((e) => [e.problem_id.digit, e.dimensions]));
+
+const sameDimensions = (a: readonly Dimension[], b: readonly Dimension[]) =>
+  a.length === b.length && a.every((dim) => b.includes(dim));
+
+export interface CompatibilityOptions {
+  /**
+   * Match problems across languages: a curve built on `000340` (zh) grades
+   * `000341` (en). Exact digit matches still take precedence.
+   */
+  readonly allowLanguageDifference?: boolean;
+}
+
+/** The digit without its language suffix (last digit: 0=zh, 1=en) */
+export const problemBase = (digit: ProblemDigitId): string => digit.slice(0, 5);
+
+/**
+ * Pair each scored problem with the curve problem that grades it.
+ * Scored problems without a counterpart in the curve are left out.
+ */
+export const matchProblems = (
+  scoreDigits: readonly ProblemDigitId[],
+  curveDigits: readonly ProblemDigitId[],
+  options: CompatibilityOptions = {}
+): ReadonlyMap<ProblemDigitId, ProblemDigitId> => {
+  const matches = new Map<ProblemDigitId, ProblemDigitId>();
+  for (const digit of scoreDigits) {
+    const match =
+      curveDigits.find((c) => c === digit) ??
+      (options.allowLanguageDifference
+        ? curveDigits.find((c) => problemBase(c) === problemBase(digit))
+        : undefined);
+    if (match !== undefined) matches.set(digit, match);
+  }
+  return matches;
+};
+
+export const checkCompatibility = (
+  scores: JSONScores,
+  curve: Curve,
+  options: CompatibilityOptions = {}
+): CompatibilityResult => {
+  const differences: CompatibilityDifference[] = [];
+
+  const scoreDigits = scores.problem_scores.map((p) => p.problem_id.digit);
+  const curveDigits = Object.keys(curve.problem_curves) as ProblemDigitId[];
+  const matches = matchProblems(scoreDigits, curveDigits, options);
+  const matchedCurveDigits = new Set(matches.values());
+
+  for (const digit of scoreDigits) {
+    if (!matches.has(digit)) {
+      differences.push(ProblemMissingFromCurve.make({ digit }));
+    }
+  }
+  for (const digit of curveDigits) {
+    if (!matchedCurveDigits.has(digit)) {
+      differences.push(ProblemMissingFromScores.make({ digit }));
+    }
+  }
+
+  // Language variants may only share a curve if they measure the same things,
+  // equally strongly
+  const curveMap = dimensionsByDigit(curve.dimension_map);
+  const scoresMap = dimensionsByDigit(scores.dimension_map);
+  const curveWeight = edgeWeights(curve.dimension_map);
+  const scoresWeight = edgeWeights(scores.dimension_map);
+  for (const [digit, curve_digit] of matches) {
+    const curve_dimensions = curveMap.get(curve_digit) ?? [];
+    const scores_dimensions = scoresMap.get(digit) ?? [];
+    if (!sameDimensions(curve_dimensions, scores_dimensions)) {
+      differences.push(
+        DimensionMapEntryMismatch.make({
+          digit,
+          curve_digit,
+          curve_dimensions,
+          scores_dimensions,
+        })
+      );
+      continue;
+    }
+    for (const dimension of scores_dimensions) {
+      const curve_weight = curveWeight(curve_digit, dimension);
+      const scores_weight = scoresWeight(digit, dimension);
+      if (curve_weight !== scores_weight) {
+        differences.push(
+          DimensionWeightMismatch.make({
+            digit,
+            curve_digit,
+            dimension,
+            curve_weight,
+            scores_weight,
+          })
+        );
+      }
+    }
+  }
+
+  if (curve.prompt_version_hash !== scores.prompt_version_hash) {
+    differences.push(
+      PromptVersionMismatch.make({
+        curve: curve.prompt_version_hash,
+        scores: scores.prompt_version_hash,
+      })
+    );
+  }
+  if (curve.dimension_map.map_id !== scores.dimension_map.map_id) {
+    differences.push(
+      DimensionMapIdMismatch.make({
+        curve: curve.dimension_map.map_id,
+        scores: scores.dimension_map.map_id,
+      })
+    );
+  }
+  if (!sameAggregation(curve.aggregation, scores.aggregation)) {
+    differences.push(
+      AggregationMismatch.make({
+        curve: curve.aggregation.strategy_id,
+        scores: scores.aggregation.strategy_id,
+      })
+    );
+  }
+
+  if (!Arr.isNonEmptyArray(differences)) {
+    return { status: "compatible" };
+  }
+  return {
+    status: differences.some(isBlocking) ? "incompatible" : "requires_override",
+    differences,
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { decodeProblemDimensionMap, type Dimension } from "./schemas.js";
+import { dimensionCoverage } from "./coverage.js";
+import { dimMapStored } from "./test-fixtures.js";
+
+const VERIFY = "Verification-Confirmation";
+
+/** The fixture map with `dim` removed from the given entries */
+const mapWithout = (dim: Dimension, entryIndices: readonly number[]) =>
+  decodeProblemDimensionMap({
+    ...dimMapStored,
+    entries: dimMapStored.entries.map((e, i) =>
+      entryIndices.includes(i)
+        ? { ...e, dimensions: e.dimensions.filter((d) => d !== dim) }
+        : e
+    ),
+  });
+
+describe("dimensionCoverage", () => {
+  it("counts the problems measuring each dimension", () => {
+    const coverage = dimensionCoverage(decodeProblemDimensionMap(dimMapStored));
+    expect(coverage.dimensions["Discovery-Self-Understanding"].count).toBe(3);
+    expect(coverage.dimensions[VERIFY].problems.map((p) => p.digit)).toEqual([
+      "000500",
+      "001001",
+    ]);
+    expect(coverage.warnings).toEqual([]);
+  });
+
+  it("warns about a dimension only one problem measures", () => {
+    const coverage = dimensionCoverage(mapWithout(VERIFY, [2]));
+    expect(coverage.dimensions[VERIFY].count).toBe(1);
+    expect(coverage.warnings).toEqual([
+      {
+        dimension: VERIFY,
+        kind: "single_problem",
+        message: `${VERIFY} is measured by only 000500 thinking-traps`,
+      },
+    ]);
+  });
+
+  it("warns about a dimension no problem measures", () => {
+    const coverage = dimensionCoverage(mapWithout(VERIFY, [1, 2]));
+    expect(coverage.dimensions[VERIFY]).toEqual({ problems: [], count: 0 });
+    expect(coverage.warnings.map((w) => w.kind)).toEqual(["uncovered"]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Dimension coverage — how many problems measure each dimension?
+ *
+ * ability_scores[dim] averages the problems mapped to `dim`. A dimension no
+ * problem measures has no ability score or grade at all; one measured by a
+ * single problem rests on one LLM judgement. Both are legal maps, so they are
+ * reported rather than rejected:
+ *
+ *   uncovered        no entry maps the dimension
+ *   single_problem   exactly one entry maps it
+ */
+
+import {
+  DIMENSIONS,
+  type Dimension,
+  type ProblemDimensionMap,
+  type ProblemId,
+} from "./schemas.js";
+
+export interface DimensionCoverageEntry {
+  /** Problems that measure the dimension, in map order */
+  readonly problems: readonly ProblemId[];
+  readonly count: number;
+}
+
+export interface CoverageWarning {
+  readonly dimension: Dimension;
+  readonly kind: "uncovered" | "single_problem";
+  readonly message: string;
+}
+
+export interface DimensionCoverage {
+  readonly map_id: string;
+  readonly dimensions: { readonly [K in Dimension]: DimensionCoverageEntry };
+  readonly warnings: readonly CoverageWarning[];
+}
+
+export const dimensionCoverage = (
+  map: ProblemDimensionMap
+): DimensionCoverage => {
+  const dimensions = Object.fromEntries(
+    DIMENSIONS.map((dim): [Dimension, DimensionCoverageEntry] => {
+      const problems = map.entries
+        .filter((e) => e.dimensions.includes(dim))
+        .map((e) => e.problem_id);
+      return [dim, { problems, count: problems.length }];
+    })
+  ) as DimensionCoverage["dimensions"];
+
+  const warnings = DIMENSIONS.flatMap((dim): CoverageWarning[] => {
+    const { problems } = dimensions[dim];
+    if (problems.length === 0) {
+      return [
+        {
+          dimension: dim,
+          kind: "uncovered",
+          message: `${dim} is measured by no problem; it has no ability score`,
+        },
+      ];
+    }
+    if (problems.length === 1) {
+      const [only] = problems;
+      return [
+        {
+          dimension: dim,
+          kind: "single_problem",
+          message: `${dim} is measured by only ${only.digit} ${only.name}`,
+        },
+      ];
+    }
+    return [];
+  });
+
+  return { map_id: map.map_id, dimensions, warnings };
+};
@@ -0,0 +1,453 @@
+import { describe, it, expect } from "vitest";
+import { Option, Schema } from "effect";
+import {
+  Curve,
+  CurveMethod,
+  CurvedScores,
+  DEFAULT_SAMPLE_POLICY,
+  DIMENSIONS,
+  SamplePolicy,
+  decodeScorePool,
+} from "./schemas.js";
+import {
+  computeCurve,
+  collectPoolValues,
+  CurveComputationError,
+  DEFAULT_CURVE_METHOD,
+  DEFAULT_ROBUST_METHOD,
+  compareMethods,
+} from "./curve.js";
+import { applyCurve } from "./apply-curve.js";
+import {
+  digit,
+  dimMapStored,
+  makePoolStored,
+  makeScoresStored,
+} from "./test-fixtures.js";
+
+const decodeMethod = Schema.decodeUnknownSync(CurveMethod);
+
+const pool = decodeScorePool(
+  makePoolStored([
+    makeScoresStored(1, [0.2, 0.3, 0.4]),
+    makeScoresStored(2, [0.4, 0.5, 0.6]),
+    makeScoresStored(3, [0.6, 0.7, 0.8]),
+    makeScoresStored(4, [0.8, 0.9, 1.0]),
+  ])
+);
+
+describe("collectPoolValues", () => {
+  it("collects task scores per problem digit", () => {
+    const values = collectPoolValues(pool);
+    expect(values.problems["000340"]).toEqual([0.2, 0.4, 0.6, 0.8]);
+    expect(Object.keys(values.problems)).toEqual(["000340", "000500", "001001"]);
+  });
+
+  it("collects every ability and total from the derived getters", () => {
+    const values = collectPoolValues(pool);
+    for (const dim of DIMENSIONS) {
+      expect(values.abilities[dim]).toHaveLength(4);
+    }
+    expect(values.totals.final_total).toEqual(
+      pool.scores.map((s) => s.totals.final_total_score)
+    );
+  });
+});
+
+describe("computeCurve", () => {
+  it("records the standard-deviation rule as data", () => {
+    const curve = computeCurve(pool);
+    expect(curve.method).toEqual(DEFAULT_CURVE_METHOD);
+    expect(curve.method).toEqual({
+      type: "standard_deviation",
+      sigma_boundaries: [1, 0, -1],
+      std_dev: "population",
+    });
+  });
+
+  it("computes A ≥ μ+σ, B ≥ μ, C ≥ μ−σ per problem", () => {
+    const curve = computeCurve(pool);
+    // 000340: μ = 0.5, σ = √0.05
+    const sigma = Math.sqrt(0.05);
+    expect(curve.problem_curves[digit("000340")].A).toBeCloseTo(0.5 + sigma);
+    expect(curve.problem_curves[digit("000340")].B).toBeCloseTo(0.5);
+    expect(curve.problem_curves[digit("000340")].C).toBeCloseTo(0.5 - sigma);
+  });
+
+  it("clamps thresholds to [0, 1]", () => {
+    const curve = computeCurve(pool, {
+      method: {
+        type: "standard_deviation",
+        sigma_boundaries: [3, 0, -3],
+        std_dev: "population",
+      },
+    });
+    expect(curve.problem_curves[digit("001001")].A).toBe(1);
+    expect(curve.problem_curves[digit("000340")].C).toBe(0);
+  });
+
+  it("covers every problem, dimension and total", () => {
+    const curve = computeCurve(pool);
+    expect(Object.keys(curve.problem_curves).sort()).toEqual([
+      "000340",
+      "000500",
+      "001001",
+    ]);
+    expect(Object.keys(curve.ability_curves).sort()).toEqual(
+      [...DIMENSIONS].sort()
+    );
+    expect(Object.keys(curve.totals).sort()).toEqual([
+      "final_total",
+      "total_ability",
+      "total_problem",
+    ]);
+  });
+
+  it("copies provenance from the pool", () => {
+    const curve = computeCurve(pool, { label: "custom" });
+    expect(curve.label).toBe("custom");
+    expect(curve.sample_size).toBe(4);
+    expect(curve.source_event_ids).toEqual(pool.source_event_ids);
+    expect(curve.prompt_version_hash).toBe(pool.prompt_version_hash);
+    expect(curve.dimension_map).toEqual(pool.dimension_map);
+  });
+
+  it("rejects an empty pool", () => {
+    const empty = decodeScorePool(makePoolStored([]));
+    expect(() => computeCurve(empty)).toThrow(CurveComputationError);
+  });
+});
+
+describe("standard deviation options", () => {
+  it("accepts custom sigma boundaries", () => {
+    const curve = computeCurve(pool, {
+      method: decodeMethod({
+        type: "standard_deviation",
+        sigma_boundaries: [1.5, 0.5, -0.5],
+      }),
+    });
+    const sigma = Math.sqrt(0.05);
+    const thresholds = curve.problem_curves[digit("000340")];
+    expect(thresholds.A).toBeCloseTo(0.5 + 1.5 * sigma);
+    expect(thresholds.B).toBeCloseTo(0.5 + 0.5 * sigma);
+    expect(thresholds.C).toBeCloseTo(0.5 - 0.5 * sigma);
+  });
+
+  it("uses the n − 1 divisor for sample σ and records it", () => {
+    const method = decodeMethod({
+      type: "standard_deviation",
+      sigma_boundaries: [1, 0, -1],
+      std_dev: "sample",
+    });
+    const curve = computeCurve(pool, { method });
+    // Σ(x − μ)² = 0.2 over 4 values → sample σ = √(0.2 / 3)
+    expect(curve.problem_curves[digit("000340")].A).toBeCloseTo(
+      0.5 + Math.sqrt(0.2 / 3)
+    );
+    expect(curve.method).toEqual(method);
+  });
+
+  it("reproduces a stored curve exactly from its pool and method", () => {
+    const method = decodeMethod({
+      type: "standard_deviation",
+      sigma_boundaries: [1.5, 0.5, -0.5],
+      std_dev: "sample",
+    });
+    const original = computeCurve(pool, { method });
+    const replayed = computeCurve(pool, { method: original.method });
+    expect(replayed.problem_curves).toEqual(original.problem_curves);
+    expect(replayed.ability_curves).toEqual(original.ability_curves);
+    expect(replayed.totals).toEqual(original.totals);
+  });
+
+  it("defaults std_dev to population for methods stored without it", () => {
+    expect(
+      decodeMethod({ type: "standard_deviation", sigma_boundaries: [1, 0, -1] })
+    ).toEqual(DEFAULT_CURVE_METHOD);
+  });
+
+  it("rejects sample σ for a single participant", () => {
+    const single = decodeScorePool(
+      makePoolStored([makeScoresStored(1, [0.5, 0.5, 0.5])])
+    );
+    const method = decodeMethod({
+      type: "standard_deviation",
+      sigma_boundaries: [1, 0, -1],
+      std_dev: "sample",
+    });
+    expect(() => computeCurve(single, { method })).toThrow(
+      CurveComputationError
+    );
+  });
+});
+
+describe("robust method", () => {
+  // 000340: eight scores around 0.7 plus two LLM failures scored 0
+  // 000500: the same eight scores, no failures
+  const around = [0.6, 0.65, 0.65, 0.7, 0.7, 0.7, 0.75, 0.8];
+  const noisy = decodeScorePool(
+    makePoolStored([
+      ...around.map((v, i) => makeScoresStored(i + 1, [v, v, v])),
+      makeScoresStored(9, [0, 0.7, 0.7]),
+      makeScoresStored(10, [0, 0.7, 0.7]),
+    ])
+  );
+
+  it("uses median and 1.4826 × MAD", () => {
+    const curve = computeCurve(noisy, { method: DEFAULT_ROBUST_METHOD });
+    // 000340 values: 0, 0, 0.6, 0.65, 0.65, 0.7, 0.7, 0.7, 0.75, 0.8
+    // median 0.675, |x − m| median 0.05
+    const thresholds = curve.problem_curves[digit("000340")];
+    expect(thresholds.B).toBeCloseTo(0.675);
+    expect(thresholds.A).toBeCloseTo(0.675 + 1.4826 * 0.05);
+    expect(thresholds.C).toBeCloseTo(0.675 - 1.4826 * 0.05);
+    expect(curve.method).toEqual({
+      type: "robust",
+      sigma_boundaries: [1, 0, -1],
+      mad_scale: 1.4826,
+    });
+  });
+
+  it("defaults mad_scale when decoding", () => {
+    expect(
+      decodeMethod({ type: "robust", sigma_boundaries: [1, 0, -1] })
+    ).toEqual(DEFAULT_ROBUST_METHOD);
+  });
+
+  it("shows where outliers moved the classical boundaries", () => {
+    const comparisons = compareMethods(noisy);
+    const shiftB = (key: string) =>
+      comparisons.find((c) => c.key === key)!.shift.B;
+    expect(comparisons.map((c) => c.category)).toEqual([
+      "problem",
+      "problem",
+      "problem",
+      ...DIMENSIONS.map(() => "ability"),
+      "total",
+      "total",
+      "total",
+    ]);
+    // μ of 000340 is dragged to 0.555; the median stays at 0.675
+    expect(shiftB("000340")).toBeCloseTo(0.675 - 0.555);
+    expect(Math.abs(shiftB("000500"))).toBeLessThan(0.01);
+  });
+});
+
+describe("percentile method", () => {
+  // 20 participants, task scores 0.05, 0.10, …, 1.00 on every problem
+  const big = decodeScorePool(
+    makePoolStored(
+      Array.from({ length: 20 }, (_, i) => {
+        const v = (i + 1) / 20;
+        return makeScoresStored(i + 1, [v, v, v]);
+      })
+    )
+  );
+  const method = decodeMethod({
+    type: "percentile",
+    percentiles: [0.85, 0.5, 0.15],
+  });
+
+  it("uses pool quantiles as thresholds", () => {
+    const curve = computeCurve(big, { method });
+    // rank 0.85 × 19 = 16.15 → 0.85 + 0.15 × 0.05
+    expect(curve.problem_curves[digit("000340")].A).toBeCloseTo(0.8575);
+    expect(curve.problem_curves[digit("000340")].B).toBeCloseTo(0.525);
+    expect(curve.method).toEqual(method);
+  });
+
+  it("gives an A to the top 15% through applyCurve", () => {
+    const curve = computeCurve(big, { method });
+    const grades = big.scores.map(
+      (s) => applyCurve(s, curve).problem_grades[0].task_grade
+    );
+    expect(grades.filter((g) => g === "A")).toHaveLength(3);
+    expect(grades.filter((g) => g === "D")).toHaveLength(3);
+  });
+});
+
+describe("absolute method", () => {
+  const method = decodeMethod({
+    type: "absolute",
+    thresholds: [0.9, 0.7, 0.5],
+  });
+
+  it("uses the declared cut scores for every category", () => {
+    const curve = computeCurve(pool, { method });
+    const expected = { A: 0.9, B: 0.7, C: 0.5 };
+    expect(curve.problem_curves[digit("000500")]).toEqual(expected);
+    expect(curve.ability_curves["Iterative-Optimization"]).toEqual(
+      Option.some(expected)
+    );
+    expect(curve.totals.final_total).toEqual(expected);
+  });
+
+  it("grades through the same applyCurve path", () => {
+    const curve = computeCurve(pool, { method });
+    const curved = applyCurve(pool.scores[3], curve);
+    expect(curved.problem_grades.map((g) => g.task_grade)).toEqual([
+      "B",
+      "A",
+      "A",
+    ]);
+  });
+});
+
+describe("CurveMethod validation", () => {
+  const decode = decodeMethod;
+
+  it("rejects absolute thresholds that are not descending", () => {
+    expect(() =>
+      decode({ type: "absolute", thresholds: [0.5, 0.7, 0.9] })
+    ).toThrow("Must be in descending order for A, B, C");
+  });
+
+  it("rejects absolute thresholds outside [0, 1]", () => {
+    expect(() =>
+      decode({ type: "absolute", thresholds: [1.2, 0.7, 0.5] })
+    ).toThrow();
+  });
+
+  it("rejects crossing percentiles", () => {
+    expect(() =>
+      decode({ type: "percentile", percentiles: [0.5, 0.85, 0.15] })
+    ).toThrow("Must be in descending order for A, B, C");
+  });
+});
+
+describe("sample policy", () => {
+  const decodePolicy = Schema.decodeUnknownSync(SamplePolicy);
+  const policy = (fallback: unknown, problem = 10) =>
+    decodePolicy({
+      min_sample_size: { problem, ability: 1, total: 1 },
+      fallback,
+    });
+
+  it("records every category as pool-computed by default", () => {
+    const curve = computeCurve(pool);
+    expect(curve.sampling.policy).toEqual(DEFAULT_SAMPLE_POLICY);
+    expect(curve.sampling.problems[digit("000340")]).toEqual({
+      sample_size: 4,
+      source: "pool",
+    });
+    expect(curve.sampling.totals.final_total.source).toBe("pool");
+  });
+
+  it("decodes a curve stored without sampling as pool-computed", () => {
+    const curve = computeCurve(pool);
+    const { sampling: _, ...stored } = Schema.encodeSync(Curve)(curve);
+    expect(Schema.decodeUnknownSync(Curve)(stored).sampling).toEqual(
+      curve.sampling
+    );
+  });
+
+  it("rejects a thin category under the reject policy", () => {
+    expect(() =>
+      computeCurve(pool, { samplePolicy: policy({ type: "reject" }) })
+    ).toThrow("problem 000340 has 4 pooled values, minimum is 10");
+  });
+
+  it("borrows the parent total curve for thin problems", () => {
+    const curve = computeCurve(pool, {
+      samplePolicy: policy({ type: "borrow_parent" }),
+    });
+    expect(curve.problem_curves[digit("000500")]).toEqual(
+      curve.totals.total_problem
+    );
+    expect(curve.sampling.problems[digit("000500")]).toEqual({
+      sample_size: 4,
+      source: "parent",
+    });
+    expect(curve.sampling.abilities["Expression-Translation"].source).toBe(
+      "pool"
+    );
+  });
+
+  it("uses declared absolute thresholds for thin categories", () => {
+    const thresholds = { A: 0.9, B: 0.7, C: 0.5 };
+    const curve = computeCurve(pool, {
+      samplePolicy: policy({ type: "absolute", thresholds }),
+    });
+    expect(curve.problem_curves[digit("001001")]).toEqual(thresholds);
+    expect(curve.sampling.problems[digit("001001")].source).toBe("absolute");
+  });
+
+  it("cannot borrow a parent for thin totals", () => {
+    const samplePolicy = decodePolicy({
+      min_sample_size: { problem: 1, ability: 1, total: 10 },
+      fallback: { type: "borrow_parent" },
+    });
+    expect(() => computeCurve(pool, { samplePolicy })).toThrow(
+      "no parent to borrow from"
+    );
+  });
+
+  describe("a dimension no problem measures", () => {
+    const unmeasured = "Iterative-Optimization";
+    const map = {
+      ...dimMapStored,
+      entries: dimMapStored.entries.map((e) => ({
+        ...e,
+        dimensions: e.dimensions.filter((d) => d !== unmeasured),
+      })),
+    };
+    const withoutDim = (n: number, v: number) => {
+      const stored = makeScoresStored(n, [v, v, v]);
+      return {
+        ...stored,
+        dimension_map: map,
+        problem_scores: stored.problem_scores.map((p) => ({
+          ...p,
+          dimension_scores: { ...p.dimension_scores, [unmeasured]: null },
+        })),
+      };
+    };
+    const thinPool = decodeScorePool({
+      ...makePoolStored([withoutDim(1, 0.4), withoutDim(2, 0.8)]),
+      dimension_map: map,
+    });
+
+    it("has no pooled samples instead of a column of zeros", () => {
+      expect(collectPoolValues(thinPool).abilities[unmeasured]).toEqual([]);
+    });
+
+    it("has no ability curve, recorded as unmeasured", () => {
+      const curve = computeCurve(thinPool);
+      expect(curve.ability_curves[unmeasured]).toEqual(Option.none());
+      expect(curve.sampling.abilities[unmeasured]).toEqual({
+        sample_size: 0,
+        source: "unmeasured",
+      });
+      const stored = Schema.encodeSync(Curve)(curve);
+      expect(stored.ability_curves[unmeasured]).toBeNull();
+      expect(Schema.decodeUnknownSync(Curve)(stored)).toEqual(curve);
+    });
+
+    it("gets no fallback curve under borrow_parent", () => {
+      const curve = computeCurve(thinPool, {
+        samplePolicy: policy({ type: "borrow_parent" }, 1),
+      });
+      expect(curve.ability_curves[unmeasured]).toEqual(Option.none());
+      expect(curve.sampling.abilities[unmeasured].source).toBe("unmeasured");
+    });
+
+    it("is graded null and left out of the ability total", () => {
+      const curve = computeCurve(thinPool);
+      const [scores] = thinPool.scores;
+      expect(scores.ability_scores[unmeasured]).toEqual(Option.none());
+      // 0.4 in the four measured dimensions; no 0 for the fifth
+      expect(scores.totals.total_ability_score).toBeCloseTo(0.4);
+
+      const curved = applyCurve(scores, curve);
+      expect(curved.ability_grades[unmeasured]).toEqual(Option.none());
+      const stored = Schema.encodeSync(CurvedScores)(curved);
+      expect(stored.ability_grades[unmeasured]).toBeNull();
+      expect(() =>
+        Schema.decodeUnknownSync(CurvedScores)({
+          ...stored,
+          ability_grades: { ...stored.ability_grades, [unmeasured]: "C" },
+        })
+      ).toThrow(`${unmeasured} is unmeasured; expected null`);
+    });
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Curve Computation (phase 4) — ScorePool → Curve
+ *
+ * Thresholds are computed independently for every score category:
+ *   problem_curves[digit]  ← task_score of that problem across the pool
+ *   ability_curves[dim]    ← JSONScores.ability_scores[dim] getter
+ *                            (None if no pooled participant measured dim)
+ *   totals.*               ← JSONScores.totals getter
+ *
+ * The rule that produced the thresholds is stored as data in `Curve.method`
+ * (domain-context.md §3.1: A ≥ μ+σ, B ≥ μ, C ≥ μ−σ ⇒ sigma_boundaries
+ * [1, 0, -1]), so a stored curve can be audited against its pool.
+ *
+ * Methods (ip-04 #12):
+ *   standard_deviation  A/B/C = μ + kσ for k in sigma_boundaries (default);
+ *                       σ is population or sample per `std_dev`
+ *   robust              A/B/C = median + k × mad_scale × MAD
+ *   percentile          A/B/C = pool quantiles, e.g. [0.85, 0.5, 0.15]
+ *   absolute            A/B/C = fixed cut scores, same for every category
+ */
+
+import { randomUUID } from "crypto";
+import { Data, DateTime, Option, Schema } from "effect";
+import {
+  Curve,
+  DEFAULT_SAMPLE_POLICY,
+  DIMENSIONS,
+  ScoreValue,
+  type CurveMethod,
+  type CategorySampling,
+  type Dimension,
+  type GradeThresholds,
+  type JSONScores,
+  type SamplePolicy,
+  type ScorePool,
+} from "./schemas.js";
+import {
+  clamp01,
+  MAD_NORMAL_SCALE,
+  mean,
+  median,
+  medianAbsoluteDeviation,
+  populationStdDev,
+  quantile,
+  sampleStdDev,
+} from "./stats.js";
+
+export class CurveComputationError extends Data.TaggedError(
+  "CurveComputationError"
+)<{ readonly message: string }> {}
+
+export type StandardDeviationMethod = Extract<
+  CurveMethod,
+  { type: "standard_deviation" }
+>;
+export type RobustMethod = Extract<CurveMethod, { type: "robust" }>;
+export type PercentileMethod = Extract<CurveMethod, { type: "percentile" }>;
+export type AbsoluteMethod = Extract<CurveMethod, { type: "absolute" }>;
+
+/** domain-context.md §3.1: A ≥ μ+σ, B ≥ μ, C ≥ μ−σ (population σ, as in v2) */
+export const DEFAULT_CURVE_METHOD: StandardDeviationMethod = {
+  type: "standard_deviation",
+  sigma_boundaries: [1, 0, -1],
+  std_dev: "population",
+};
+
+/** Robust counterpart of DEFAULT_CURVE_METHOD: median ± 1 scaled MAD */
+export const DEFAULT_ROBUST_METHOD: RobustMethod = {
+  type: "robust",
+  sigma_boundaries: [1, 0, -1],
+  mad_scale: MAD_NORMAL_SCALE,
+};
+
+/** Build a full Record<Dimension, A> (all 5 keys) */
+export const byDimension = <A>(
+  f: (dim: Dimension) => A
+): { readonly [K in Dimension]: A } =>
+  Object.fromEntries(DIMENSIONS.map((dim) => [dim, f(dim)])) as {
+    readonly [K in Dimension]: A;
+  };
+
+// =============================================================================
+// Pool values per score category
+// =============================================================================
+
+export interface PoolValues {
+  /** task_score values keyed by ProblemDigitId */
+  readonly problems: Readonly<Record<string, readonly number[]>>;
+  readonly abilities: { readonly [K in Dimension]: readonly number[] };
+  readonly totals: {
+    readonly total_problem: readonly number[];
+    readonly total_ability: readonly number[];
+    readonly final_total: readonly number[];
+  };
+}
+
+/** Collect the raw values each curve is computed from. */
+export const collectPoolValues = (pool: ScorePool): PoolValues => {
+  const problems = Object.fromEntries(
+    pool.problem_ids.map((pid) => [
+      pid.digit,
+      pool.scores.flatMap((s) =>
+        s.problem_scores
+          .filter((p) => p.problem_id.digit === pid.digit)
+          .map((p) => p.task_score)
+      ),
+    ])
+  );
+  // Participants with no measured value for a dimension add no sample to it
+  const abilities = byDimension((dim) =>
+    pool.scores.flatMap((s) => Option.toArray(s.ability_scores[dim]))
+  );
+  const totals = pool.scores.map((s) => s.totals);
+  return {
+    problems,
+    abilities,
+    totals: {
+      total_problem: totals.map((t) => t.total_problem_score),
+      total_ability: totals.map((t) => t.total_ability_score),
+      final_total: totals.map((t) => t.final_total_score),
+    },
+  };
+};
+
+// =============================================================================
+// Thresholds
+// =============================================================================
+
+const toScoreValue = Schema.decodeSync(ScoreValue);
+const validateCurve = Schema.validateSync(Curve);
+
+/** A/B/C = clamp(μ + kσ) for each k in sigma_boundaries */
+export const standardDeviationThresholds = (
+  values: readonly number[],
+  method: StandardDeviationMethod
+): GradeThresholds => {
+  if (method.std_dev === "sample" && values.length < 2) {
+    throw new CurveComputationError({
+      message: `Sample standard deviation needs at least 2 values, got ${values.length}`,
+    });
+  }
+  const mu = mean(values);
+  const sigma =
+    method.std_dev === "sample"
+      ? sampleStdDev(values)
+      : populationStdDev(values);
+  const [a, b, c] = method.sigma_boundaries.map((k) =>
+    toScoreValue(clamp01(mu + k * sigma))
+  );
+  return { A: a, B: b, C: c };
+};
+
+/** A/B/C = clamp(median + k × mad_scale × MAD) for each k in sigma_boundaries */
+export const robustThresholds = (
+  values: readonly number[],
+  method: RobustMethod
+): GradeThresholds => {
+  const center = median(values);
+  const spread = method.mad_scale * medianAbsoluteDeviation(values);
+  const [a, b, c] = method.sigma_boundaries.map((k) =>
+    toScoreValue(clamp01(center + k * spread))
+  );
+  return { A: a, B: b, C: c };
+};
+
+/** A/B/C = the pool's p-quantile for each p in percentiles */
+export const percentileThresholds = (
+  values: readonly number[],
+  method: PercentileMethod
+): GradeThresholds => {
+  const [a, b, c] = method.percentiles.map((p) =>
+    toScoreValue(clamp01(quantile(values, p)))
+  );
+  return { A: a, B: b, C: c };
+};
+
+/** A/B/C = the declared cut scores; the pool is not consulted */
+export const absoluteThresholds = (method: AbsoluteMethod): GradeThresholds => {
+  const [a, b, c] = method.thresholds;
+  return { A: a, B: b, C: c };
+};
+
+export const thresholdsFor = (
+  values: readonly number[],
+  method: CurveMethod
+): GradeThresholds => {
+  switch (method.type) {
+    case "standard_deviation":
+      return standardDeviationThresholds(values, method);
+    case "robust":
+      return robustThresholds(values, method);
+    case "percentile":
+      return percentileThresholds(values, method);
+    case "absolute":
+      return absoluteThresholds(method);
+  }
+};
+
+// =============================================================================
+// computeCurve
+// =============================================================================
+
+interface ResolvedCategory {
+  readonly thresholds: GradeThresholds;
+  readonly sampling: CategorySampling;
+}
+
+/** Own curve if the sample is large enough, otherwise the policy's fallback */
+const resolveCategory = (
+  name: string,
+  values: readonly number[],
+  minSampleSize: number,
+  method: CurveMethod,
+  policy: SamplePolicy,
+  parent?: GradeThresholds
+): ResolvedCategory => {
+  const sample_size = values.length;
+  if (sample_size >= minSampleSize) {
+    return {
+      thresholds: thresholdsFor(values, method),
+      sampling: { sample_size, source: "pool" },
+    };
+  }
+  const thin = `${name} has ${sample_size} pooled values, minimum is ${minSampleSize}`;
+  const fallback = policy.fallback;
+  switch (fallback.type) {
+    case "reject":
+      throw new CurveComputationError({ message: thin });
+    case "borrow_parent":
+      if (parent === undefined) {
+        throw new CurveComputationError({
+          message: `${thin}; total curves have no parent to borrow from`,
+        });
+      }
+      return { thresholds: parent, sampling: { sample_size, source: "parent" } };
+    case "absolute":
+      return {
+        thresholds: fallback.thresholds,
+        sampling: { sample_size, source: "absolute" },
+      };
+  }
+};
+
+export interface ComputeCurveOptions {
+  readonly label?: string;
+  readonly method?: CurveMethod;
+  readonly samplePolicy?: SamplePolicy;
+}
+
+export const computeCurve = (
+  pool: ScorePool,
+  options: ComputeCurveOptions = {}
+): Curve => {
+  if (pool.scores.length === 0) {
+    throw new CurveComputationError({
+      message: `Cannot compute a curve from empty pool ${pool.pool_id}`,
+    });
+  }
+  const method = options.method ?? DEFAULT_CURVE_METHOD;
+  const policy = options.samplePolicy ?? DEFAULT_SAMPLE_POLICY;
+  const min = policy.min_sample_size;
+  const values = collectPoolValues(pool);
+
+  const totals = {
+    total_problem: resolveCategory(
+      "total_problem",
+      values.totals.total_problem,
+      min.total,
+      method,
+      policy
+    ),
+    total_ability: resolveCategory(
+      "total_ability",
+      values.totals.total_ability,
+      min.total,
+      method,
+      policy
+    ),
+    final_total: resolveCategory(
+      "final_total",
+      values.totals.final_total,
+      min.total,
+      method,
+      policy
+    ),
+  };
+  // No fallback for an unmeasured ability: nothing would ever be graded by it
+  const abilities = byDimension(
+    (dim): {
+      readonly thresholds: Option.Option<GradeThresholds>;
+      readonly sampling: CategorySampling;
+    } => {
+      if (values.abilities[dim].length === 0) {
+        return {
+          thresholds: Option.none(),
+          sampling: { sample_size: 0, source: "unmeasured" },
+        };
+      }
+      const resolved = resolveCategory(
+        `dimension ${dim}`,
+        values.abilities[dim],
+        min.ability,
+        method,
+        policy,
+        totals.total_ability.thresholds
+      );
+      return { ...resolved, thresholds: Option.some(resolved.thresholds) };
+    }
+  );
+  const problems = Object.entries(values.problems).map(
+    ([digit, v]) =>
+      [
+        digit,
+        resolveCategory(
+          `problem ${digit}`,
+          v,
+          min.problem,
+          method,
+          policy,
+          totals.total_problem.thresholds
+        ),
+      ] as const
+  );
+
+  return validateCurve({
+    curve_id: randomUUID(),
+    label: options.label ?? pool.label,
+    source_event_ids: pool.source_event_ids,
+    prompt_version_hash: pool.prompt_version_hash,
+    dimension_map: pool.dimension_map,
+    method,
+    sample_size: pool.scores.length,
+    computed_at: DateTime.unsafeNow(),
+    totals: {
+      total_problem: totals.total_problem.thresholds,
+      total_ability: totals.total_ability.thresholds,
+      final_total: totals.final_total.thresholds,
+    },
+    ability_curves: byDimension((dim) => abilities[dim].thresholds),
+    problem_curves: Object.fromEntries(
+      problems.map(([digit, r]) => [digit, r.thresholds])
+    ) as Curve["problem_curves"],
+    sampling: {
+      policy,
+      totals: {
+        total_problem: totals.total_problem.sampling,
+        total_ability: totals.total_ability.sampling,
+        final_total: totals.final_total.sampling,
+      },
+      abilities: byDimension((dim) => abilities[dim].sampling),
+      problems: Object.fromEntries(
+        problems.map(([digit, r]) => [digit, r.sampling])
+      ) as Curve["sampling"]["problems"],
+    },
+    aggregation: pool.aggregation,
+  });
+};
+
+// =============================================================================
+// compareMethods — where do two methods disagree on the same pool?
+// =============================================================================
+
+export interface ThresholdComparison {
+  readonly category: "problem" | "ability" | "total";
+  /** ProblemDigitId, Dimension, or total curve name */
+  readonly key: string;
+  readonly baseline: GradeThresholds;
+  readonly candidate: GradeThresholds;
+  /** candidate − baseline per grade boundary */
+  readonly shift: { readonly A: number; readonly B: number; readonly C: number };
+}
+
+/**
+ * Compute both methods' thresholds for every category of the pool. With the
+ * defaults (classical vs robust), large shifts mark categories where
+ * outliers dragged μ and σ.
+ */
+export const compareMethods = (
+  pool: ScorePool,
+  baseline: CurveMethod = DEFAULT_CURVE_METHOD,
+  candidate: CurveMethod = DEFAULT_ROBUST_METHOD
+): readonly ThresholdComparison[] => {
+  if (pool.scores.length === 0) {
+    throw new CurveComputationError({
+      message: `Cannot compare methods on empty pool ${pool.pool_id}`,
+    });
+  }
+  const values = collectPoolValues(pool);
+  const compare = (
+    category: ThresholdComparison["category"],
+    key: string,
+    v: readonly number[]
+  ): ThresholdComparison[] => {
+    // Categories without any pooled value have nothing to compare
+    if (v.length === 0) return [];
+    const b = thresholdsFor(v, baseline);
+    const c = thresholdsFor(v, candidate);
+    return [
+      {
+        category,
+        key,
+        baseline: b,
+        candidate: c,
+        shift: { A: c.A - b.A, B: c.B - b.B, C: c.C - b.C },
+      },
+    ];
+  };
+  return [
+    ...Object.entries(values.problems).flatMap(([digit, v]) =>
+      compare("problem", digit, v)
+    ),
+    ...DIMENSIONS.flatMap((dim) =>
+      compare("ability", dim, values.abilities[dim])
+    ),
+    ...Object.entries(values.totals).flatMap(([name, v]) =>
+      compare("total", name, v)
+    ),
+  ];
+};
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { Schema } from "effect";
+import {
+  CurveMethod,
+  DimensionFromLegacy,
+  JSONScores,
+  ScorePool,
+} from "./schemas.js";
+import {
+  DecodeError,
+  decodeIssues,
+  decodeWithIssues,
+  renderIssuesJson,
+  renderIssuesText,
+  type DecodeIssue,
+} from "./decode-errors.js";
+import { makePoolStored, makeScoresStored } from "./test-fixtures.js";
+
+/** Issues from a failed decode (fails the test if the decode succeeds) */
+const issuesOf = <A, I>(
+  schema: Schema.Schema<A, I, never>,
+  input: unknown
+): readonly DecodeIssue[] => {
+  try {
+    decodeWithIssues(schema)(input);
+  } catch (e) {
+    if (e instanceof DecodeError) return e.issues;
+    throw e;
+  }
+  throw new Error("expected the decode to fail");
+};
+
+const brokenScores = () => {
+  const stored: any = structuredClone(makeScoresStored(1, [0.5, 0.5, 0.5]));
+  // structuredClone keeps the problem_id shared with the dimension map
+  stored.problem_scores[0].problem_id = {
+    ...stored.problem_scores[0].problem_id,
+    digit: "000342",
+  };
+  stored.problem_scores[1].task_score = 1.5;
+  stored.problem_scores[2].dimension_scores["Expression-Translation"] = "x";
+  delete stored.participant_id;
+  return stored;
+};
+
+describe("decodeIssues", () => {
+  const issues = issuesOf(JSONScores, brokenScores());
+
+  it("reports every broken field, not just the first", () => {
+    expect(issues.map((i) => i.path)).toEqual([
+      "$.participant_id",
+      "$.problem_scores[0].problem_id.digit",
+      "$.problem_scores[1].task_score",
+      '$.problem_scores[2].dimension_scores["Expression-Translation"]',
+    ]);
+  });
+
+  it("keeps the custom ProblemDigitId message", () => {
+    expect(issues[1]).toEqual({
+      path: "$.problem_scores[0].problem_id.digit",
+      expected: "ProblemDigitId",
+      actual: "000342",
+      message: "Last digit must be 0 (zh) or 1 (en)",
+    });
+  });
+
+  it("names branded types and reports the actual value", () => {
+    expect(issues[2]).toEqual({
+      path: "$.problem_scores[1].task_score",
+      expected: "ScoreValue",
+      actual: 1.5,
+      message: "Expected a number less than or equal to 1, actual 1.5",
+    });
+  });
+
+  it("merges union members into one entry", () => {
+    expect(issues[3]).toMatchObject({
+      expected: "ScoreValue | null",
+      actual: "x",
+      message: 'Expected ScoreValue | null, actual "x"',
+    });
+  });
+
+  it("reports missing fields with an undefined actual value", () => {
+    expect(issues[0]).toEqual({
+      path: "$.participant_id",
+      expected: "a string at least 1 character(s) long",
+      actual: undefined,
+      message: "is missing",
+    });
+  });
+
+  it("works for errors thrown by the plain decoders", () => {
+    const decode = Schema.decodeUnknownSync(CurveMethod);
+    let error: unknown;
+    try {
+      decode({ type: "percentile", percentiles: [0.9, 0.5, 2] });
+    } catch (e) {
+      error = e;
+    }
+    expect(decodeIssues(error as never)).toEqual([
+      {
+        path: "$.percentiles[2]",
+        expected: "ScoreValue",
+        actual: 2,
+        message: "Expected a number less than or equal to 1, actual 2",
+      },
+    ]);
+  });
+
+  it("carries messages from filters and transformations", () => {
+    const pool = makePoolStored([]);
+    pool.scores = [{ ...makeScoresStored(1, [1, 1, 1]), event_id: "other" }];
+    expect(issuesOf(ScorePool, pool)).toEqual([
+      {
+        path: "$.scores[0].event_id",
+        expected: expect.any(String),
+        actual: expect.anything(),
+        message: "Event other is not a source event",
+      },
+    ]);
+    expect(
+      issuesOf(
+        ScorePool,
+        makePoolStored([
+          makeScoresStored(1, [1, 1, 1]),
+          { ...makeScoresStored(2, [1, 1, 1]), prompt_version_hash: "bbbbbbb" },
+          {
+            ...makeScoresStored(3, [1, 1, 1]),
+            event_id: "other",
+            prompt_version_hash: "bbbbbbb",
+          },
+        ])
+      ).map((i) => i.path)
+    ).toEqual([
+      "$.scores[1].prompt_version_hash",
+      "$.scores[2].event_id",
+      "$.scores[2].prompt_version_hash",
+    ]);
+    expect(issuesOf(DimensionFromLegacy, "world-modeling")[0].message).toMatch(
+      /^Unknown legacy dimension "world-modeling"/
+    );
+  });
+});
+
+describe("rendering", () => {
+  const issues = issuesOf(JSONScores, brokenScores());
+
+  it("renders terminal text, one line per issue, prefixed by source", () => {
+    const text = renderIssuesText(issues, "student-0001.json");
+    expect(text.split("\n")).toHaveLength(4);
+    expect(text.split("\n")[2]).toBe(
+      "student-0001.json $.problem_scores[1].task_score: Expected a number less than or equal to 1, actual 1.5"
+    );
+  });
+
+  it("renders JSON with missing values as null", () => {
+    const parsed = JSON.parse(renderIssuesJson(issues));
+    expect(parsed[0].actual).toBeNull();
+    expect(parsed[1].message).toBe("Last digit must be 0 (zh) or 1 (en)");
+  });
+
+  it("uses the rendered text as the DecodeError message", () => {
+    expect(() =>
+      decodeWithIssues(JSONScores)(brokenScores(), "student-0001.json")
+    ).toThrow("student-0001.json $.participant_id: is missing");
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Decode error reports — one line per broken field instead of one ParseError
+ *
+ * Effect reports a failed decode as a single nested ParseIssue tree. This
+ * flattens it into `{ path, expected, actual, message }` entries (v2 printed
+ * zod issues as `path: message` lines) for any v3 schema:
+ *
+ *   path      JSON path into the input, e.g. `$.problem_scores[1].task_score`
+ *   expected  the schema at that path; branded types by brand name
+ *   actual    the offending input value (undefined when missing)
+ *   message   Effect's message, including custom ones such as ProblemDigitId's
+ *             "Last digit must be 0 (zh) or 1 (en)"
+ *
+ * A value that matches no member of a union (e.g. `ScoreValue | null`) is one
+ * entry, not one per member. Entries render as JSON or as terminal text.
+ * v1 reports are still validated with zod; zodDecodeIssues brings their
+ * errors into the same shape.
+ */
+
+import {
+  Data,
+  Either,
+  Option,
+  ParseResult,
+  Schema,
+  SchemaAST as AST,
+} from "effect";
+import type { ZodError } from "zod";
+
+export interface DecodeIssue {
+  readonly path: string;
+  readonly expected: string;
+  readonly actual: unknown;
+  readonly message: string;
+}
+
+export class DecodeError extends Data.TaggedError("DecodeError")<{
+  readonly message: string;
+  readonly issues: readonly DecodeIssue[];
+}> {}
+
+/** `$`, `.key`, `[0]`, `["Expression-Translation"]` */
+const formatPath = (path: readonly PropertyKey[]): string =>
+  path.reduce<string>((acc, key) => {
+    if (typeof key === "number") return `${acc}[${key}]`;
+    const name = String(key);
+    return /^[A-Za-z_$][\w$]*$/.test(name)
+      ? `${acc}.${name}`
+      : `${acc}[${JSON.stringify(name)}]`;
+  }, "$");
+
+/**
+ * Short schema description: brand name if any, unions by member, unbranded
+ * refinements by their description ("a string at least 1 character(s) long")
+ */
+const expectedOf = (ast: AST.AST): string => {
+  const brands = AST.getBrandAnnotation(ast);
+  if (Option.isSome(brands)) {
+    return brands.value.map((b) => String(b)).join(" & ");
+  }
+  if (AST.isUnion(ast)) return ast.types.map(expectedOf).join(" | ");
+  if (AST.isTransformation(ast)) return expectedOf(ast.from);
+  if (AST.isRefinement(ast)) {
+    return Option.getOrElse(AST.getDescriptionAnnotation(ast), () =>
+      String(ast)
+    );
+  }
+  return String(ast);
+};
+
+const formatActual = (actual: unknown): string =>
+  actual === undefined ? "missing" : (JSON.stringify(actual) ?? String(actual));
+
+const messageOf = (issue: ParseResult.ParseIssue): string =>
+  ParseResult.ArrayFormatter.formatIssueSync(issue)
+    .map((i) => i.message)
+    .join("; ");
+
+const leaf = (
+  path: readonly PropertyKey[],
+  ast: AST.AST,
+  actual: unknown,
+  message: string
+): DecodeIssue => ({
+  path: formatPath(path),
+  expected: expectedOf(ast),
+  actual,
+  message,
+});
+
+const collect = (
+  issue: ParseResult.ParseIssue,
+  path: readonly PropertyKey[]
+): DecodeIssue[] => {
+  switch (issue._tag) {
+    case "Pointer":
+      return collect(issue.issue, [
+        ...path,
+        ...(Array.isArray(issue.path) ? issue.path : [issue.path]),
+      ]);
+    case "Composite": {
+      const children = (
+        Array.isArray(issue.issues) ? issue.issues : [issue.issues]
+      ) as ParseResult.ParseIssue[];
+      const found = children.flatMap((child) => collect(child, path));
+      if (!AST.isUnion(issue.ast)) return found;
+      // Members that failed on the value itself merge into a single entry
+      const here = formatPath(path);
+      const nested = found.filter((i) => i.path !== here);
+      if (nested.length === found.length) return found;
+      const expected = expectedOf(issue.ast);
+      return [
+        {
+          path: here,
+          expected,
+          actual: issue.actual,
+          message: `Expected ${expected}, actual ${formatActual(issue.actual)}`,
+        },
+        ...nested,
+      ];
+    }
+    case "Refinement":
+      // Filters may point below the refined value (Schema.filter `{ path }`),
+      // and may report several issues at once
+      return issue.kind === "From" ||
+        issue.issue._tag === "Pointer" ||
+        issue.issue._tag === "Composite"
+        ? collect(issue.issue, path)
+        : [leaf(path, issue.ast, issue.actual, messageOf(issue))];
+    case "Transformation":
+      return collect(issue.issue, path);
+    case "Missing":
+      return [leaf(path, issue.ast.type, undefined, messageOf(issue))];
+    case "Unexpected":
+      return [
+        {
+          path: formatPath(path),
+          expected: "never",
+          actual: issue.actual,
+          message: messageOf(issue),
+        },
+      ];
+    case "Type":
+    case "Forbidden":
+      return [leaf(path, issue.ast, issue.actual, messageOf(issue))];
+  }
+};
+
+/** Flatten a ParseError from any v3 decoder into path-accurate issues */
+export const decodeIssues = (
+  error: ParseResult.ParseError
+): readonly DecodeIssue[] => collect(error.issue, []);
+
+/** The value at a decode path, or undefined where the input stops */
+const valueAt = (input: unknown, path: readonly PropertyKey[]): unknown =>
+  path.reduce<unknown>(
+    (value, key) =>
+      typeof value === "object" && value !== null
+        ? (value as Record<PropertyKey, unknown>)[key]
+        : undefined,
+    input
+  );
+
+/** The same entries for a zod error (v1 LLMReportSchema) on `input` */
+export const zodDecodeIssues = (
+  error: ZodError,
+  input: unknown
+): readonly DecodeIssue[] =>
+  error.issues.map((issue) => ({
+    path: formatPath(issue.path),
+    expected:
+      issue.code === "invalid_type"
+        ? issue.expected
+        : issue.code === "invalid_enum_value"
+          ? issue.options.map((o) => JSON.stringify(o)).join(" | ")
+          : issue.code,
+    actual: valueAt(input, issue.path),
+    message: issue.message,
+  }));
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/** JSON array of issues; missing values appear as `"actual": null` */
+export const renderIssuesJson = (issues: readonly DecodeIssue[]): string =>
+  JSON.stringify(
+    issues.map((i) => ({ ...i, actual: i.actual ?? null })),
+    null,
+    2
+  );
+
+/**
+ * One line per issue, `path: message`. `source` (e.g. the participant's file
+ * name) prefixes every line so batch output stays greppable.
+ */
+export const renderIssuesText = (
+  issues: readonly DecodeIssue[],
+  source?: string
+): string =>
+  issues
+    .map((i) => `${source ? `${source} ` : ""}${i.path}: ${i.message}`)
+    .join("\n");
+
+// =============================================================================
+// Decoding with issue reports
+// =============================================================================
+
+/**
+ * Like Schema.decodeUnknownSync, but collects every issue (not just the
+ * first) and throws a DecodeError carrying them.
+ */
+export const decodeWithIssues =
+  <A, I>(schema: Schema.Schema<A, I, never>) =>
+  (input: unknown, source?: string): A => {
+    const result = Schema.decodeUnknownEither(schema)(input, {
+      errors: "all",
+    });
+    if (Either.isRight(result)) return result.right;
+    const issues = decodeIssues(result.left);
+    throw new DecodeError({
+      message: renderIssuesText(issues, source),
+      issues,
+    });
+  };
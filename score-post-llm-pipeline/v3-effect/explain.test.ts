@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { Option, Schema } from "effect";
+import {
+  JSONScores,
+  LEGACY_AGGREGATION,
+  decodeJSONScores,
+  decodeScorePool,
+  type LetterGrade,
+} from "./schemas.js";
+import { computeCurve } from "./curve.js";
+import { applyCurve } from "./apply-curve.js";
+import {
+  explainCurvedScores,
+  explainScores,
+  ExplainError,
+} from "./explain.js";
+import {
+  dimMapStored,
+  makePoolStored,
+  makeScoresStored,
+} from "./test-fixtures.js";
+
+const scores = decodeJSONScores(
+  makeScoresStored(1, [0.8, 0.75, 0.82], (i, dim) =>
+    dim === "Expression-Translation" ? [0.78, 0, 0.82][i] : 0.5
+  )
+);
+
+describe("explainScores", () => {
+  const explanation = explainScores(scores);
+
+  it("lists the contributing problems and the ones skipped as None", () => {
+    const expression = explanation.abilities["Expression-Translation"];
+    expect(expression.inputs).toEqual([
+      { digit: "000340", name: "meeting-verify", value: 0.78, weight: 1 },
+      { digit: "001001", name: "ling-bing", value: 0.82, weight: 1 },
+    ]);
+    expect(expression.skipped).toEqual([
+      { digit: "000500", name: "thinking-traps" },
+    ]);
+    expect(expression.formula).toBe("mean(0.7800, 0.8200) = 0.8000");
+    expect(expression.score).toBe(
+      Option.getOrNull(scores.ability_scores["Expression-Translation"])
+    );
+  });
+
+  it("shows both means and the geometric mean step", () => {
+    const { totals } = explanation;
+    expect(totals.total_problem_score.formula).toBe(
+      "mean(0.8000, 0.7500, 0.8200) = 0.7900"
+    );
+    expect(totals.total_ability_score.inputs).toEqual({
+      "Discovery-Self-Understanding": 0.5,
+      "Expression-Translation": 0.8,
+      "Exploratory-Discovery": 0.5,
+      "Verification-Confirmation": 0.5,
+      "Iterative-Optimization": 0.5,
+    });
+    expect(totals.total_ability_score.formula).toBe(
+      "mean(0.5000, 0.8000, 0.5000, 0.5000, 0.5000) = 0.5600"
+    );
+    expect(totals.final_total_score).toEqual({
+      score: scores.totals.final_total_score,
+      formula: "√(0.7900 × 0.5600) = √0.4424 = 0.6651",
+    });
+  });
+
+  it("notes dimensions no problem measured", () => {
+    const unmeasured = decodeJSONScores(
+      makeScoresStored(2, [0.5], undefined, {
+        ...dimMapStored,
+        entries: dimMapStored.entries.slice(0, 1),
+      })
+    );
+    const explained = explainScores(unmeasured);
+    const iterative = explained.abilities["Iterative-Optimization"];
+    expect(iterative.score).toBeNull();
+    expect(iterative.inputs).toEqual([]);
+    expect(iterative.formula).toBe("unmeasured");
+    // Left out of the ability total rather than counted as 0
+    expect(explained.totals.total_ability_score.formula).toBe(
+      "mean(0.5000, 0.5000, 0.5000) = 0.5000"
+    );
+
+    const legacy = explainScores(
+      decodeJSONScores({
+        ...Schema.encodeSync(JSONScores)(unmeasured),
+        aggregation: LEGACY_AGGREGATION,
+      })
+    );
+    expect(legacy.totals.total_ability_score.formula).toBe(
+      "mean(0.5000, 0.5000, 0.5000, 0.0000, 0.0000) = 0.3000"
+    );
+  });
+});
+
+describe("explainCurvedScores", () => {
+  const pool = decodeScorePool(
+    makePoolStored([
+      makeScoresStored(1, [0.2, 0.3, 0.4]),
+      makeScoresStored(2, [0.4, 0.5, 0.6]),
+      makeScoresStored(3, [0.6, 0.7, 0.8]),
+      makeScoresStored(4, [0.8, 0.9, 1.0]),
+    ])
+  );
+  const curve = computeCurve(pool);
+  const curved = applyCurve(pool.scores[2], curve);
+  const explanation = explainCurvedScores(curved, curve);
+
+  it("names the curve entry and the threshold each score crossed", () => {
+    const task = explanation.problem_grades[0].task;
+    const thresholds = curve.problem_curves["000340" as never];
+    expect(task.curve_entry).toBe('problem_curves["000340"]');
+    expect(task.thresholds).toEqual(thresholds);
+    expect(task.grade).toBe(curved.problem_grades[0].task_grade);
+    expect(task.crossed).toBe(task.grade === "D" ? null : task.grade);
+    expect(task.consistent).toBe(true);
+  });
+
+  it("explains why a score fell short of the grade above", () => {
+    const grade = explanation.total_grades.final_total_grade;
+    expect(grade.curve_entry).toBe("totals.final_total");
+    if (grade.crossed === "A") {
+      expect(grade.reason).toMatch(/^\d\.\d{4} ≥ A \d\.\d{4}$/);
+    } else {
+      expect(grade.reason).toMatch(/ \([ABC] needs \d\.\d{4}\)$/);
+    }
+  });
+
+  it("grades dimensions against their ability curve and skips None", () => {
+    const [first] = explanation.problem_grades;
+    expect(first.dimensions["Verification-Confirmation"]).toBeNull();
+    expect(first.dimensions["Expression-Translation"]?.curve_entry).toBe(
+      'ability_curves["Expression-Translation"]'
+    );
+  });
+
+  it("keeps the score explanation alongside the grades", () => {
+    expect(explanation.abilities).toEqual(
+      explainScores(curved.source).abilities
+    );
+  });
+
+  it("flags a recorded grade the thresholds do not reproduce", () => {
+    const recorded = Option.getOrThrow(
+      curved.ability_grades["Iterative-Optimization"]
+    );
+    const tampered = {
+      ...curved,
+      ability_grades: {
+        ...curved.ability_grades,
+        "Iterative-Optimization": Option.some<LetterGrade>(
+          recorded === "D" ? "A" : "D"
+        ),
+      },
+    };
+    const grade =
+      explainCurvedScores(tampered, curve).ability_grades[
+        "Iterative-Optimization"
+      ];
+    expect(grade?.consistent).toBe(false);
+    expect(grade?.crossed).toBe(recorded === "D" ? null : recorded);
+  });
+
+  it("refuses a curve other than the applied one", () => {
+    const other = { ...curve, curve_id: "11111111-1111-4111-8111-111111111111" };
+    expect(() => explainCurvedScores(curved, other)).toThrow(ExplainError);
+  });
+});
@@ -0,0 +1,425 @@
+/**
+ * Explain — how every derived score and grade was arrived at
+ *
+ * The JSONScores getters only return numbers; a disputed grade meant redoing
+ * the arithmetic by hand. explainScores traces the same formulas:
+ *
+ *   ability_scores[dim]  which problems contributed which value (and with
+ *                        what weight), and which were skipped as None
+ *   totals               the two means and the final combination, e.g. the
+ *                        default √(problem × ability) step
+ *
+ * Formulas follow the scores' own AggregationStrategy.
+ *
+ * explainCurvedScores adds, for every grade in a CurvedScores, the thresholds
+ * of the applied curve and which one the score crossed. The curve must be the
+ * one the grades were applied from; a recorded grade that its thresholds do
+ * not reproduce is flagged rather than hidden.
+ */
+
+import { Data, Option } from "effect";
+import {
+  DIMENSIONS,
+  dimensionWeight,
+  edgeWeights,
+  problemWeight,
+  type AggregationStrategy,
+  type Curve,
+  type CurvedScores,
+  type Dimension,
+  type GradeThresholds,
+  type JSONScores,
+  type LetterGrade,
+  type ProblemDigitId,
+} from "./schemas.js";
+import { gradeFor } from "./apply-curve.js";
+
+export class ExplainError extends Data.TaggedError("ExplainError")<{
+  readonly message: string;
+}> {}
+
+export interface ProblemRef {
+  readonly digit: string;
+  readonly name: string;
+}
+
+export interface WeightedInput extends ProblemRef {
+  readonly value: number;
+  /**
+   * 1 unless the aggregation strategy weights this problem; for ability
+   * scores, times the dimension map's edge weight
+   */
+  readonly weight: number;
+}
+
+export interface AbilityExplanation {
+  /** null when no problem measures the dimension */
+  readonly score: number | null;
+  readonly inputs: readonly WeightedInput[];
+  /** Problems whose score for this dimension is None */
+  readonly skipped: readonly ProblemRef[];
+  /**
+   * e.g. `mean(0.8500, 0.9000, 0.8800) = 0.8767`, or with weights
+   * `(2 × 0.8500 + 1 × 0.9000) / 3 = 0.8667`; `unmeasured` without inputs
+   */
+  readonly formula: string;
+}
+
+export interface TotalsExplanation {
+  readonly total_problem_score: {
+    readonly score: number;
+    readonly inputs: readonly WeightedInput[];
+    readonly formula: string;
+  };
+  readonly total_ability_score: {
+    readonly score: number;
+    /**
+     * null for an unmeasured ability, which the mean leaves out (or counts
+     * as 0 under the "zero" policy)
+     */
+    readonly inputs: { readonly [K in Dimension]: number | null };
+    readonly weights: { readonly [K in Dimension]: number };
+    readonly formula: string;
+  };
+  readonly final_total_score: {
+    readonly score: number;
+    /** e.g. `√(0.7900 × 0.7603) = √0.6006 = 0.7750` */
+    readonly formula: string;
+  };
+}
+
+export interface ScoresExplanation {
+  readonly scores_id: string;
+  readonly participant_id: string;
+  readonly aggregation: AggregationStrategy;
+  readonly abilities: { readonly [K in Dimension]: AbilityExplanation };
+  readonly totals: TotalsExplanation;
+}
+
+const fixed = (n: number) => n.toFixed(4);
+
+/** `mean(…)` when every weight is 1, `(w × v + …) / Σw` otherwise */
+const meanFormula = (
+  values: readonly { readonly value: number; readonly weight: number }[],
+  result: number
+): string => {
+  if (values.length === 0) return `no values → ${fixed(result)}`;
+  if (values.every((v) => v.weight === 1)) {
+    return `mean(${values.map((v) => fixed(v.value)).join(", ")}) = ${fixed(result)}`;
+  }
+  const terms = values.map((v) => `${v.weight} × ${fixed(v.value)}`);
+  const total = values.reduce((sum, v) => sum + v.weight, 0);
+  return `(${terms.join(" + ")}) / ${total} = ${fixed(result)}`;
+};
+
+const finalFormula = (
+  strategy: AggregationStrategy,
+  problem: number,
+  ability: number,
+  result: number
+): string => {
+  const combination = strategy.final_total;
+  switch (combination.type) {
+    case "geometric_mean":
+      return `√(${fixed(problem)} × ${fixed(ability)}) = √${fixed(problem * ability)} = ${fixed(result)}`;
+    case "arithmetic_mean":
+      return `(${fixed(problem)} + ${fixed(ability)}) / 2 = ${fixed(result)}`;
+    case "weighted_mean":
+      return meanFormula(
+        [
+          { value: problem, weight: combination.problem_weight },
+          { value: ability, weight: combination.ability_weight },
+        ],
+        result
+      );
+  }
+};
+
+const refOf = (p: JSONScores["problem_scores"][number]): ProblemRef => ({
+  digit: p.problem_id.digit,
+  name: p.problem_id.name,
+});
+
+export const explainScores = (scores: JSONScores): ScoresExplanation => {
+  const strategy = scores.aggregation;
+  const abilityScores = scores.ability_scores;
+  const totals = scores.totals;
+  const edgeWeight = edgeWeights(scores.dimension_map);
+
+  const abilities = Object.fromEntries(
+    DIMENSIONS.map((dim): [Dimension, AbilityExplanation] => {
+      const inputs = scores.problem_scores.flatMap((p) =>
+        Option.match(p.dimension_scores[dim], {
+          onNone: () => [],
+          onSome: (value) => [
+            {
+              ...refOf(p),
+              value,
+              weight:
+                problemWeight(strategy.abilities, p.problem_id.digit) *
+                edgeWeight(p.problem_id.digit, dim),
+            },
+          ],
+        })
+      );
+      const skipped = scores.problem_scores
+        .filter((p) => Option.isNone(p.dimension_scores[dim]))
+        .map(refOf);
+      return [
+        dim,
+        Option.match(abilityScores[dim], {
+          onNone: () => ({
+            score: null,
+            inputs,
+            skipped,
+            formula: "unmeasured",
+          }),
+          onSome: (score) => ({
+            score,
+            inputs,
+            skipped,
+            formula: meanFormula(inputs, score),
+          }),
+        }),
+      ];
+    })
+  ) as ScoresExplanation["abilities"];
+
+  const taskInputs = scores.problem_scores.map((p) => ({
+    ...refOf(p),
+    value: p.task_score,
+    weight: problemWeight(strategy.total_problem, p.problem_id.digit),
+  }));
+  const abilityInputs = Object.fromEntries(
+    DIMENSIONS.map((dim) => [dim, Option.getOrNull(abilityScores[dim])])
+  ) as TotalsExplanation["total_ability_score"]["inputs"];
+  const dimensionWeights = Object.fromEntries(
+    DIMENSIONS.map((dim) => [
+      dim,
+      dimensionWeight(strategy.total_ability, dim),
+    ])
+  ) as TotalsExplanation["total_ability_score"]["weights"];
+
+  return {
+    scores_id: scores.scores_id,
+    participant_id: scores.participant_id,
+    aggregation: strategy,
+    abilities,
+    totals: {
+      total_problem_score: {
+        score: totals.total_problem_score,
+        inputs: taskInputs,
+        formula: meanFormula(taskInputs, totals.total_problem_score),
+      },
+      total_ability_score: {
+        score: totals.total_ability_score,
+        inputs: abilityInputs,
+        weights: dimensionWeights,
+        formula: meanFormula(
+          DIMENSIONS.flatMap((dim) => {
+            const value =
+              abilityInputs[dim] ??
+              (strategy.unmeasured_abilities === "zero" ? 0 : null);
+            return value === null
+              ? []
+              : [{ value, weight: dimensionWeights[dim] }];
+          }),
+          totals.total_ability_score
+        ),
+      },
+      final_total_score: {
+        score: totals.final_total_score,
+        formula: finalFormula(
+          strategy,
+          totals.total_problem_score,
+          totals.total_ability_score,
+          totals.final_total_score
+        ),
+      },
+    },
+  };
+};
+
+// =============================================================================
+// Grades
+// =============================================================================
+
+export interface GradeExplanation {
+  readonly score: number;
+  /** The grade recorded in the CurvedScores */
+  readonly grade: LetterGrade;
+  /** Where the thresholds came from, e.g. `problem_curves["000340"]` */
+  readonly curve_entry: string;
+  readonly thresholds: GradeThresholds;
+  /** The highest threshold the score reached; null means below C (grade D) */
+  readonly crossed: "A" | "B" | "C" | null;
+  /** e.g. `0.8000 ≥ B 0.7000 (A needs 0.8500)` */
+  readonly reason: string;
+  /** false when the thresholds do not reproduce the recorded grade */
+  readonly consistent: boolean;
+}
+
+export interface ProblemGradesExplanation extends ProblemRef {
+  readonly task: GradeExplanation;
+  /** null where the problem does not measure the dimension */
+  readonly dimensions: { readonly [K in Dimension]: GradeExplanation | null };
+}
+
+export interface CurvedScoresExplanation extends ScoresExplanation {
+  readonly curved_scores_id: string;
+  readonly applied_curve_id: string;
+  readonly problem_grades: readonly ProblemGradesExplanation[];
+  /** null for an unmeasured ability */
+  readonly ability_grades: {
+    readonly [K in Dimension]: GradeExplanation | null;
+  };
+  readonly total_grades: {
+    readonly total_problem_grade: GradeExplanation;
+    readonly total_ability_grade: GradeExplanation;
+    readonly final_total_grade: GradeExplanation;
+  };
+}
+
+const explainGrade = (
+  score: number,
+  grade: LetterGrade,
+  curveEntry: string,
+  thresholds: GradeThresholds
+): GradeExplanation => {
+  const expected = gradeFor(score, thresholds);
+  const crossed = expected === "D" ? null : expected;
+  const next = { A: null, B: "A", C: "B", D: "C" } as const;
+  const above = next[expected];
+  const reached =
+    crossed === null
+      ? `${fixed(score)} < C ${fixed(thresholds.C)}`
+      : `${fixed(score)} ≥ ${crossed} ${fixed(thresholds[crossed])}`;
+  return {
+    score,
+    grade,
+    curve_entry: curveEntry,
+    thresholds,
+    crossed,
+    reason:
+      above === null
+        ? reached
+        : `${reached} (${above} needs ${fixed(thresholds[above])})`,
+    consistent: expected === grade,
+  };
+};
+
+export const explainCurvedScores = (
+  curved: CurvedScores,
+  curve: Curve
+): CurvedScoresExplanation => {
+  if (curve.curve_id !== curved.applied_curve_id) {
+    throw new ExplainError({
+      message: `Curved scores ${curved.curved_scores_id} were graded by curve ${curved.applied_curve_id}, not ${curve.curve_id}`,
+    });
+  }
+  const scores = curved.source;
+  const base = explainScores(scores);
+  const abilityCurve = (dim: Dimension): GradeThresholds =>
+    Option.getOrElse(curve.ability_curves[dim], () => {
+      throw new ExplainError({
+        message: `${dim} has a grade but no ability curve in curve ${curve.curve_id}`,
+      });
+    });
+  const bridged = new Map<string, ProblemDigitId>(
+    curved.language_bridges.map((b) => [b.scores_digit, b.curve_digit])
+  );
+  const scoresByDigit = new Map(
+    scores.problem_scores.map((p) => [p.problem_id.digit, p])
+  );
+
+  const problem_grades = curved.problem_grades.map(
+    (g): ProblemGradesExplanation => {
+      const digit = g.problem_id.digit;
+      const problem = scoresByDigit.get(digit);
+      const curveDigit = bridged.get(digit) ?? digit;
+      const thresholds = curve.problem_curves[curveDigit];
+      if (problem === undefined || thresholds === undefined) {
+        throw new ExplainError({
+          message: `Problem ${digit} has a grade but ${problem === undefined ? "no score" : `no entry in curve ${curve.curve_id}`}`,
+        });
+      }
+      const dimensions = Object.fromEntries(
+        DIMENSIONS.map((dim) => {
+          const score = Option.getOrUndefined(problem.dimension_scores[dim]);
+          const grade = Option.getOrUndefined(g.dimension_grades[dim]);
+          return [
+            dim,
+            score === undefined || grade === undefined
+              ? null
+              : explainGrade(
+                  score,
+                  grade,
+                  `ability_curves["${dim}"]`,
+                  abilityCurve(dim)
+                ),
+          ];
+        })
+      ) as ProblemGradesExplanation["dimensions"];
+      return {
+        digit,
+        name: g.problem_id.name,
+        task: explainGrade(
+          problem.task_score,
+          g.task_grade,
+          `problem_curves["${curveDigit}"]`,
+          thresholds
+        ),
+        dimensions,
+      };
+    }
+  );
+
+  const abilityScores = scores.ability_scores;
+  const ability_grades = Object.fromEntries(
+    DIMENSIONS.map((dim) => {
+      const score = Option.getOrUndefined(abilityScores[dim]);
+      const grade = Option.getOrUndefined(curved.ability_grades[dim]);
+      return [
+        dim,
+        score === undefined || grade === undefined
+          ? null
+          : explainGrade(
+              score,
+              grade,
+              `ability_curves["${dim}"]`,
+              abilityCurve(dim)
+            ),
+      ];
+    })
+  ) as CurvedScoresExplanation["ability_grades"];
+
+  const totals = scores.totals;
+  const grades = curved.total_grades;
+  return {
+    ...base,
+    curved_scores_id: curved.curved_scores_id,
+    applied_curve_id: curved.applied_curve_id,
+    problem_grades,
+    ability_grades,
+    total_grades: {
+      total_problem_grade: explainGrade(
+        totals.total_problem_score,
+        grades.total_problem_grade,
+        "totals.total_problem",
+        curve.totals.total_problem
+      ),
+      total_ability_grade: explainGrade(
+        totals.total_ability_score,
+        grades.total_ability_grade,
+        "totals.total_ability",
+        curve.totals.total_ability
+      ),
+      final_total_grade: explainGrade(
+        totals.final_total_score,
+        grades.final_total_grade,
+        "totals.final_total",
+        curve.totals.final_total
+      ),
+    },
+  };
+};
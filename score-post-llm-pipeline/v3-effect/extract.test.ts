@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { Option } from "effect";
+import { LLMReportSchema } from "../v1-vitest/schema-verify-v1.js";
+import { decodeJSONScores, decodeProblemDimensionMap } from "./schemas.js";
+import { DecodeError } from "./decode-errors.js";
+import {
+  extractScores,
+  ExtractionError,
+  splitProblemId,
+  type ExtractOptions,
+} from "./extract.js";
+import {
+  PROMPT_HASH,
+  dimMapStored,
+  makeReportStored,
+  makeScoresStored,
+} from "./test-fixtures.js";
+
+const options: ExtractOptions = {
+  promptVersionHash: PROMPT_HASH,
+  dimensionMap: decodeProblemDimensionMap(dimMapStored),
+};
+
+const stored = makeReportStored(1, [0.9, 0.6, 0.3]);
+const extract = (report: unknown, map = options.dimensionMap) =>
+  extractScores(LLMReportSchema.parse(report), {
+    ...options,
+    dimensionMap: map,
+  });
+
+/** dimMapStored with `entries` patched, decoded */
+const mapWith = (
+  entries: (typeof dimMapStored)["entries"]
+): ExtractOptions["dimensionMap"] =>
+  decodeProblemDimensionMap({ ...dimMapStored, entries });
+
+describe("splitProblemId", () => {
+  it("splits the digits from the title", () => {
+    expect(splitProblemId("000340-meeting-verify")).toEqual({
+      digit: "000340",
+      name: "meeting-verify",
+    });
+    expect(splitProblemId("001231-a-b-c").name).toBe("a-b-c");
+  });
+
+  it("rejects IDs without a title", () => {
+    expect(() => splitProblemId("000340")).toThrow(ExtractionError);
+  });
+});
+
+describe("extractScores", () => {
+  it("produces the JSONScores the v3 builders describe", () => {
+    expect(extract(stored)).toEqual(
+      decodeJSONScores(makeScoresStored(1, [0.9, 0.6, 0.3]))
+    );
+  });
+
+  it("embeds the given dimension map, edge weights included", () => {
+    const weighted = mapWith(
+      dimMapStored.entries.map((e, i) =>
+        i === 2 ? { ...e, weights: { "Expression-Translation": 3 } } : e
+      )
+    );
+    const scores = extract(stored, weighted);
+    expect(scores.dimension_map).toEqual(weighted);
+    expect(
+      Option.getOrThrow(scores.ability_scores["Expression-Translation"])
+    ).toBeCloseTo((0.9 + 3 * 0.3) / 4);
+  });
+
+  it("rejects a report whose dependency list disagrees with the map", () => {
+    const [first, second, third] = dimMapStored.entries;
+    expect(() => extract(stored, mapWith([first, second]))).toThrow(
+      "depends on problem 001001-ling-bing, which dimension map d4e5f6a7-b8c9-4d0e-af12-345678901234 does not map"
+    );
+    const narrowed = { ...third, dimensions: ["Expression-Translation" as const] };
+    expect(() => extract(stored, mapWith([first, second, narrowed]))).toThrow(
+      "lists Discovery-Self-Understanding, Expression-Translation, Exploratory-Discovery, Verification-Confirmation, Iterative-Optimization for problem 001001-ling-bing, but dimension map d4e5f6a7-b8c9-4d0e-af12-345678901234 lists Expression-Translation"
+    );
+    const renamed = {
+      ...third,
+      problem_id: { ...third.problem_id, name: "renamed" },
+    };
+    expect(() => extract(stored, mapWith([first, second, renamed]))).toThrow(
+      'names problem 001001 "ling-bing", but dimension map'
+    );
+
+    const shorter = makeReportStored(2, [0.5, 0.5, 0.5]);
+    shorter.metadata.dimensionProblemDependency.pop();
+    expect(() => extract(shorter)).toThrow(
+      "maps problem 001001, which report 00000000-0000-4000-8000-000000000002 does not depend on"
+    );
+  });
+
+  it("maps per-problem dimension details and derives abilities from them", () => {
+    const scores = extract(
+      makeReportStored(2, [0.5, 0.5, 0.5], (i, dim) =>
+        dim === "Expression-Translation" ? 0.1 * (i + 1) : 0.5
+      )
+    );
+    const first = scores.problem_scores[0].dimension_scores;
+    expect(first["Expression-Translation"]).toEqual(Option.some(0.1));
+    expect(
+      Option.getOrThrow(scores.ability_scores["Expression-Translation"])
+    ).toBeCloseTo(0.2);
+  });
+
+  it("rejects a mapped dimension with a missing or null detail", () => {
+    const missing = makeReportStored(3, [0.5, 0.5, 0.5]);
+    const [first] = missing.problemReports;
+    first.dimensionDetails = first.dimensionDetails.slice(1);
+    expect(() => extract(missing)).toThrow(
+      "Problem 000340-meeting-verify has no score for Discovery-Self-Understanding, which its dependency entry lists"
+    );
+
+    const nulled = makeReportStored(3, [0.5, 0.5, 0.5]);
+    const [, second] = nulled.problemReports;
+    (second.dimensionDetails[0] as { score: number | null }).score = null;
+    expect(() => extract(nulled)).toThrow(
+      "Problem 000500-thinking-traps has no score for Discovery-Self-Understanding"
+    );
+  });
+
+  it("reports scores that fail to decode as a DecodeError with paths", () => {
+    const report = LLMReportSchema.parse(stored);
+    let error: unknown;
+    try {
+      extractScores(report, { ...options, promptVersionHash: "NOTAHASH" });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(DecodeError);
+    expect((error as DecodeError).issues.map((i) => i.path)).toEqual([
+      "$.prompt_version_hash",
+    ]);
+  });
+
+  it("rejects a problem without a task score", () => {
+    const report = makeReportStored(4, [0.5, 0.5, 0.5]);
+    (report.problemReports[1] as { score: number | null }).score = null;
+    expect(() => extract(report)).toThrow(
+      "Problem 000500-thinking-traps has no task score"
+    );
+  });
+
+  it("rejects problems missing from either side of the dependency list", () => {
+    const unmapped = makeReportStored(5, [0.5, 0.5, 0.5]);
+    unmapped.metadata.dimensionProblemDependency.pop();
+    const twoProblems = mapWith(dimMapStored.entries.slice(0, 2));
+    expect(() => extract(unmapped, twoProblems)).toThrow(
+      "Problem 001001-ling-bing is missing from metadata.dimensionProblemDependency"
+    );
+
+    const unreported = makeReportStored(5, [0.5, 0.5, 0.5]);
+    unreported.problemReports.pop();
+    expect(() => extract(unreported)).toThrow(ExtractionError);
+  });
+
+  it("rejects a score for a dimension the dependency entry does not list", () => {
+    const report = makeReportStored(6, [0.5, 0.5, 0.5]);
+    report.metadata.dimensionProblemDependency[0].dimensions = ["discovery"];
+    const [first, ...rest] = dimMapStored.entries;
+    const narrowed = mapWith([
+      { ...first, dimensions: ["Discovery-Self-Understanding"] },
+      ...rest,
+    ]);
+    expect(() => extract(report, narrowed)).toThrow(
+      "Problem 000340-meeting-verify scores Expression-Translation"
+    );
+  });
+
+  it("rejects a null detail for a dimension the dependency entry does not list", () => {
+    const report = makeReportStored(7, [0.5, 0.5, 0.5]);
+    report.problemReports[0].dimensionDetails.push({
+      ...report.problemReports[0].dimensionDetails[0],
+      dimension: "self-verification",
+      score: null as unknown as number,
+    });
+    expect(() => extract(report)).toThrow(
+      "Problem 000340-meeting-verify has a Verification-Confirmation detail, which its dependency entry does not list"
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Score Extraction (phase 3) — v1 LLMReport → JSONScores
+ *
+ * The LLM produces reports in the v1 format (`LLMReportSchema` in
+ * v1-vitest/schema-verify-v1.ts). Extraction keeps only the source scores;
+ * ability scores and totals are re-derived by the JSONScores getters.
+ *
+ *   problemReports[].score                       → task_score
+ *   problemReports[].dimensionDetails[].score    → dimension_scores[dim]
+ *   metadata.dimensionProblemDependency          ↔ dimension_map.entries
+ *   "000340-meeting-verify"                      → { digit, name }
+ *   v1 dimension IDs                             → v3 Dimension
+ *                                                  (DimensionFromLegacy)
+ *
+ * Every dimension a problem's dependency entry lists needs a detail with a
+ * non-null score, or extraction fails; the other dimensions must have no
+ * detail at all and become None. The v1 report does not carry the prompt git
+ * hash or the map itself (identity and edge weights), so the caller supplies
+ * them; the map is embedded as given, and the report's dependency list must
+ * name the same problems with the same dimensions. `problemVersion` is
+ * dropped: in v3 the version lives in the digit itself.
+ */
+
+import { Data, Schema } from "effect";
+import {
+  DEFAULT_AGGREGATION,
+  DIMENSIONS,
+  JSONScores,
+  ProblemDimensionMap,
+  decodeLegacyDimension,
+  type Dimension,
+  type DimMapEntry,
+  type AggregationStrategy,
+  type RepairEntry,
+} from "./schemas.js";
+import { decodeWithIssues } from "./decode-errors.js";
+import type { LLMReport } from "../v1-vitest/schema-verify-v1.js";
+
+export class ExtractionError extends Data.TaggedError("ExtractionError")<{
+  readonly message: string;
+}> {}
+
+/** "000340-meeting-verify" → { digit: "000340", name: "meeting-verify" } */
+export const splitProblemId = (
+  id: string
+): { readonly digit: string; readonly name: string } => {
+  const match = id.match(/^(\d{6})-(.+)$/);
+  if (!match) {
+    throw new ExtractionError({
+      message: `Problem ID "${id}" is not "6digits-title"`,
+    });
+  }
+  return { digit: match[1], name: match[2] };
+};
+
+const encodeDimensionMap = Schema.encodeSync(ProblemDimensionMap);
+
+/** The first disagreement between the report's dependency list and `map` */
+const dependencyMismatch = (
+  report: LLMReport,
+  mapped: ReadonlyMap<string, readonly Dimension[]>,
+  map: ProblemDimensionMap
+): string | undefined => {
+  const { reportId } = report.metadata;
+  const entries = new Map<string, DimMapEntry>(
+    map.entries.map((e) => [e.problem_id.digit, e])
+  );
+  for (const [problemId, dimensions] of mapped) {
+    const { digit, name } = splitProblemId(problemId);
+    const entry = entries.get(digit);
+    if (entry === undefined) {
+      return `Report ${reportId} depends on problem ${problemId}, which dimension map ${map.map_id} does not map`;
+    }
+    if (entry.problem_id.name !== name) {
+      return `Report ${reportId} names problem ${digit} "${name}", but dimension map ${map.map_id} names it "${entry.problem_id.name}"`;
+    }
+    const same =
+      dimensions.length === entry.dimensions.length &&
+      dimensions.every((dim) => entry.dimensions.includes(dim));
+    if (!same) {
+      return `Report ${reportId} lists ${dimensions.join(", ")} for problem ${problemId}, but dimension map ${map.map_id} lists ${entry.dimensions.join(", ")}`;
+    }
+  }
+  const reported = new Set(
+    [...mapped.keys()].map((problemId) => splitProblemId(problemId).digit)
+  );
+  const unreported = map.entries.find(
+    (e) => !reported.has(e.problem_id.digit)
+  );
+  return unreported === undefined
+    ? undefined
+    : `Dimension map ${map.map_id} maps problem ${unreported.problem_id.digit}, which report ${reportId} does not depend on`;
+};
+
+export interface ExtractOptions {
+  /** Git hash of the scoring prompt (v1 only records a prompt-set SHA-256) */
+  readonly promptVersionHash: string;
+  /** The event's map, embedded as given; the report must agree with it */
+  readonly dimensionMap: ProblemDimensionMap;
+  /** Log from repairReport, recorded as provenance in JSONScores.repairs */
+  readonly repairs?: readonly RepairEntry[];
+  /** The event's aggregation strategy (EventConfig.aggregation) */
+  readonly aggregation?: AggregationStrategy;
+}
+
+/**
+ * Build the stored JSONScores for one report and decode it. `scores_id` is
+ * the report's `reportId`, so the scores trace back to their report. Scores
+ * that fail to decode (e.g. a malformed prompt hash) throw a DecodeError.
+ */
+export const extractScores = (
+  report: LLMReport,
+  options: ExtractOptions
+): JSONScores => {
+  const { metadata } = report;
+  const mapped = new Map(
+    metadata.dimensionProblemDependency.map((d) => [
+      d.problemId,
+      d.dimensions.map((dim) => decodeLegacyDimension(dim)),
+    ])
+  );
+
+  const mismatch = dependencyMismatch(report, mapped, options.dimensionMap);
+  if (mismatch !== undefined) {
+    throw new ExtractionError({ message: mismatch });
+  }
+
+  for (const problemId of mapped.keys()) {
+    if (!report.problemReports.some((p) => p.problemId === problemId)) {
+      throw new ExtractionError({
+        message: `Report ${metadata.reportId} has no problemReport for mapped problem ${problemId}`,
+      });
+    }
+  }
+
+  const problem_scores = report.problemReports.map((p) => {
+    const dimensions = mapped.get(p.problemId);
+    if (dimensions === undefined) {
+      throw new ExtractionError({
+        message: `Problem ${p.problemId} is missing from metadata.dimensionProblemDependency`,
+      });
+    }
+    if (p.score === null) {
+      throw new ExtractionError({
+        message: `Problem ${p.problemId} has no task score`,
+      });
+    }
+    const details = new Map(
+      p.dimensionDetails.map((d) => [
+        decodeLegacyDimension(d.dimension),
+        d.score,
+      ])
+    );
+    for (const [dim, score] of details) {
+      if (!dimensions.includes(dim)) {
+        // A null detail would still need a curved grade at merge time
+        throw new ExtractionError({
+          message:
+            score === null
+              ? `Problem ${p.problemId} has a ${dim} detail, which its dependency entry does not list`
+              : `Problem ${p.problemId} scores ${dim}, which its dependency entry does not list`,
+        });
+      }
+    }
+    for (const dim of dimensions) {
+      if ((details.get(dim) ?? null) === null) {
+        throw new ExtractionError({
+          message: `Problem ${p.problemId} has no score for ${dim}, which its dependency entry lists`,
+        });
+      }
+    }
+    return {
+      problem_id: splitProblemId(p.problemId),
+      task_score: p.score,
+      dimension_scores: Object.fromEntries(
+        DIMENSIONS.map((dim) => [dim, details.get(dim) ?? null])
+      ),
+    };
+  });
+
+  return decodeWithIssues(JSONScores)({
+    scores_id: metadata.reportId,
+    event_id: metadata.eventId,
+    prompt_version_hash: options.promptVersionHash,
+    dimension_map: encodeDimensionMap(options.dimensionMap),
+    generated_at: metadata.createdAt,
+    participant_id: metadata.participantId,
+    problem_scores,
+    repairs: options.repairs ?? [],
+    aggregation: options.aggregation ?? DEFAULT_AGGREGATION,
+  });
+};
@@ -9,7 +9,11 @@ import {
   CurvedScores,
   decodeJSONScores,
   decodeCurvedScores,
+  decodeCurve,
+  decodeScorePool,
+  DIMENSIONS,
 } from "./schemas.js";
+import { applyCurve } from "./apply-curve.js";
 
 // =============================================================================
 // 1. ProblemDimensionMap (embedded in JSONScores)
@@ -181,7 +185,76 @@ export const curvedScoresStored = {
 const curved = decodeCurvedScores(curvedScoresStored);
 
 // =============================================================================
-// 5. Print stored vs decoded
+// 5. Curve + ScorePool — STORED form
+//
+//    Thresholds are chosen so that they reproduce the grades above, e.g.
+//    000340 task 0.80 ≥ B 0.70 (but < A 0.85) → B.
+// =============================================================================
+
+const defaultThresholds = { A: 0.85, B: 0.7, C: 0.55 };
+const fromPool = { sample_size: 1, source: "pool" };
+
+export const curveStored = {
+  curve_id: curvedScoresStored.applied_curve_id,
+  label: "spring-2024-final std-dev",
+  source_event_ids: ["spring-2024-final"],
+  prompt_version_hash: "a3f8b2c",
+  dimension_map: dimMap,
+  method: { type: "standard_deviation", sigma_boundaries: [1, 0, -1] },
+  sample_size: 1,
+  computed_at: "2024-03-15T14:45:00Z",
+  totals: {
+    total_problem: defaultThresholds,
+    total_ability: defaultThresholds,
+    final_total: defaultThresholds,
+  },
+  ability_curves: {
+    "Discovery-Self-Understanding": { A: 0.84, B: 0.7, C: 0.55 },
+    "Expression-Translation": { A: 0.81, B: 0.7, C: 0.55 },
+    "Exploratory-Discovery": { A: 0.82, B: 0.7, C: 0.55 },
+    "Verification-Confirmation": defaultThresholds,
+    "Iterative-Optimization": { A: 0.8, B: 0.65, C: 0.5 },
+  },
+  problem_curves: {
+    "000340": defaultThresholds,
+    "000500": { A: 0.8, B: 0.7, C: 0.55 },
+    "001001": { A: 0.8, B: 0.65, C: 0.5 },
+  },
+  // One participant: every category computed from its single pooled value
+  sampling: {
+    policy: {
+      min_sample_size: { problem: 1, ability: 1, total: 1 },
+      fallback: { type: "reject" },
+    },
+    totals: {
+      total_problem: fromPool,
+      total_ability: fromPool,
+      final_total: fromPool,
+    },
+    abilities: Object.fromEntries(DIMENSIONS.map((dim) => [dim, fromPool])),
+    problems: { "000340": fromPool, "000500": fromPool, "001001": fromPool },
+  },
+};
+
+export const scorePoolStored = {
+  pool_id: "e5f6a7b8-c9d0-4e1f-a234-56789012abcd",
+  label: "spring-2024-final pool",
+  source_event_ids: ["spring-2024-final"],
+  prompt_version_hash: "a3f8b2c",
+  problem_ids: dimMap.entries.map((e) => e.problem_id),
+  dimension_map: dimMap,
+  created_at: "2024-03-15T14:40:00Z",
+  scores: [jsonScoresStored],
+};
+
+const curve = decodeCurve(curveStored);
+const pool = decodeScorePool(scorePoolStored);
+
+// applyCurve grades everything from the curve — same grades as section 4
+const applied = applyCurve(scores, curve);
+
+// =============================================================================
+// 6. Print stored vs decoded
 // =============================================================================
 
 const optionToJson = (v: unknown): unknown =>
@@ -210,8 +283,23 @@ console.log("source.totals:", curved.source.totals);
 console.log("ability_grades:", dimRecordToJson(curved.ability_grades));
 console.log("total_grades:", curved.total_grades);
 
+console.log("\n=== Curve + ScorePool: DECODED ===\n");
+console.log("curve.method:", curve.method);
+console.log("curve.problem_curves keys:", Object.keys(curve.problem_curves));
+console.log("pool.scores[0] is JSONScores?", pool.scores[0] instanceof JSONScores);
+
+const encodeCurvedScores = Schema.encodeSync(CurvedScores);
+const gradesOnly = (c: CurvedScores) => {
+  const { problem_grades, ability_grades, total_grades } = encodeCurvedScores(c);
+  return JSON.stringify({ problem_grades, ability_grades, total_grades });
+};
+console.log(
+  "applyCurve matches hand-filled grades?",
+  gradesOnly(applied) === gradesOnly(curved)
+);
+
 // =============================================================================
-// 6. Round-trip: encode strips derived getters
+// 7. Round-trip: encode strips derived getters
 // =============================================================================
 
 const encodeJSONScores = Schema.encodeSync(JSONScores);
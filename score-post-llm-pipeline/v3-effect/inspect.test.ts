@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { Option } from "effect";
+import { decodeJSONScores, decodeScorePool } from "./schemas.js";
+import { computeCurve } from "./curve.js";
+import { applyCurve } from "./apply-curve.js";
+import {
+  inspectCurvedScores,
+  inspectScores,
+  renderInspection,
+} from "./inspect.js";
+import { makePoolStored, makeScoresStored } from "./test-fixtures.js";
+
+const pool = decodeScorePool(
+  makePoolStored([
+    makeScoresStored(1, [0.2, 0.3, 0.4]),
+    makeScoresStored(2, [0.4, 0.5, 0.6]),
+    makeScoresStored(3, [0.6, 0.7, 0.8]),
+    makeScoresStored(4, [0.8, 0.9, 1.0]),
+  ])
+);
+const scores = pool.scores[3];
+const curved = applyCurve(scores, computeCurve(pool));
+
+describe("inspectScores", () => {
+  const inspection = inspectScores(scores);
+
+  it("lists every problem with None dimensions as null", () => {
+    const [first] = inspection.problems;
+    expect(first).toMatchObject({
+      digit: "000340",
+      name: "meeting-verify",
+      task: { score: 0.8, grade: null },
+    });
+    expect(first.dimensions["Verification-Confirmation"]).toBeNull();
+    expect(first.dimensions["Expression-Translation"]).toEqual({
+      score: 0.8,
+      grade: null,
+    });
+  });
+
+  it("reports the derived abilities and how many problems fed each", () => {
+    expect(inspection.abilities["Discovery-Self-Understanding"]).toEqual({
+      score: Option.getOrThrow(
+        scores.ability_scores["Discovery-Self-Understanding"]
+      ),
+      grade: null,
+      measured_by: 3,
+      formula: "mean(0.8000, 0.9000, 1.0000) = 0.9000",
+    });
+    expect(inspection.abilities["Expression-Translation"].measured_by).toBe(2);
+  });
+
+  it("shows the weights behind a weighted ability score", () => {
+    const stored = makeScoresStored(1, [0.8, 0.9, 1.0]);
+    const weighted = decodeJSONScores({
+      ...stored,
+      dimension_map: {
+        ...stored.dimension_map,
+        entries: stored.dimension_map.entries.map((e, i) =>
+          i === 0 ? { ...e, weights: { "Discovery-Self-Understanding": 2 } } : e
+        ),
+      },
+    });
+    const { formula } =
+      inspectScores(weighted).abilities["Discovery-Self-Understanding"];
+    expect(formula).toMatch(
+      /^\(2 × 0\.8000 \+ 1 × 0\.9000 \+ 1 × 1\.0000\) \/ 4 = /
+    );
+    expect(renderInspection(inspectScores(weighted))).toContain(formula);
+  });
+
+  it("spells out each total's formula with its inputs", () => {
+    const { totals } = inspection;
+    expect(totals.total_problem_score).toEqual({
+      score: scores.totals.total_problem_score,
+      grade: null,
+      formula: "mean(0.8000, 0.9000, 1.0000) = 0.9000",
+    });
+    expect(totals.final_total_score.formula).toMatch(
+      /^√\(0\.9000 × 0\.\d{4}\) = √0\.\d{4} = 0\.\d{4}$/
+    );
+  });
+
+  it("is plain JSON", () => {
+    expect(JSON.parse(JSON.stringify(inspection))).toEqual(inspection);
+  });
+});
+
+describe("inspectCurvedScores", () => {
+  const inspection = inspectCurvedScores(curved);
+
+  it("puts the grade next to every score", () => {
+    expect(inspection.kind).toBe("CurvedScores");
+    expect(inspection.id).toBe(curved.curved_scores_id);
+    expect(inspection.applied_curve_id).toBe(curved.applied_curve_id);
+    expect(inspection.problems[0].task.grade).toBe(
+      curved.problem_grades[0].task_grade
+    );
+    expect(inspection.abilities["Iterative-Optimization"].grade).toBe(
+      Option.getOrNull(curved.ability_grades["Iterative-Optimization"])
+    );
+    expect(inspection.totals.final_total_score.grade).toBe(
+      curved.total_grades.final_total_grade
+    );
+  });
+});
+
+describe("renderInspection", () => {
+  it("lays out problems, abilities and totals", () => {
+    const lines = renderInspection(inspectCurvedScores(curved)).split("\n");
+    expect(lines[0]).toBe(
+      `CurvedScores ${curved.curved_scores_id} — student-0004, spring-2024-final`
+    );
+    expect(lines).toContain("Problems");
+    expect(lines.find((l) => l.includes("000340 meeting-verify"))).toMatch(
+      /0\.8000 [ABCD] +0\.8000 [ABCD] +0\.8000 [ABCD] +0\.8000 [ABCD] +— +—$/
+    );
+    expect(lines.find((l) => l.includes("final_total_score"))).toMatch(
+      /√\(0\.\d{4} × 0\.\d{4}\)/
+    );
+  });
+
+  it("colours grades only when asked", () => {
+    const inspection = inspectCurvedScores(curved);
+    expect(renderInspection(inspection)).not.toContain("\x1b[");
+    expect(renderInspection(inspection, { color: true })).toMatch(
+      /\x1b\[3\dm[ABCD]\x1b\[0m/
+    );
+  });
+
+  it("shows uncurved scores without grades", () => {
+    const uncurved = decodeJSONScores(makeScoresStored(1, [0.5, 0.5, 0.5]));
+    const text = renderInspection(inspectScores(uncurved));
+    expect(text).toMatch(/^JSONScores /);
+    expect(text).not.toMatch(/\d [ABCD]\b/);
+  });
+});
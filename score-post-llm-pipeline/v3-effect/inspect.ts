@@ -0,0 +1,265 @@
+/**
+ * Inspect — any JSONScores or CurvedScores, with its derived values spelled out
+ *
+ * fixtures.ts shows stored vs decoded for one hardcoded fixture; this does the
+ * same for any decoded scores:
+ *
+ *   problems   task score and every dimension score per problem (— for None)
+ *   abilities  the five derived ability_scores with their formula and inputs
+ *   totals     the three derived totals with their formula and inputs
+ *
+ * Formulas come from explainScores, so weighted strategies and edge weights
+ * show their weights.
+ *
+ * For CurvedScores every score carries its grade. An Inspection is plain JSON
+ * (`--json` in the CLI); renderInspection lays it out for a terminal, with
+ * grades colour-coded when asked.
+ */
+
+import { Option } from "effect";
+import {
+  DIMENSIONS,
+  type CurvedScores,
+  type Dimension,
+  type JSONScores,
+  type LetterGrade,
+} from "./schemas.js";
+import { explainScores } from "./explain.js";
+
+export interface InspectedScore {
+  readonly score: number;
+  /** null for uncurved scores */
+  readonly grade: LetterGrade | null;
+}
+
+export interface ProblemInspection {
+  readonly digit: string;
+  readonly name: string;
+  readonly task: InspectedScore;
+  /** null where the problem does not measure the dimension */
+  readonly dimensions: { readonly [K in Dimension]: InspectedScore | null };
+}
+
+export interface AbilityInspection {
+  /** null when no problem measures the dimension */
+  readonly score: number | null;
+  readonly grade: LetterGrade | null;
+  /** Problems with a score for this dimension */
+  readonly measured_by: number;
+  /** e.g. `mean(0.8500, 0.9000) = 0.8750`, or `unmeasured` */
+  readonly formula: string;
+}
+
+export interface TotalInspection extends InspectedScore {
+  /** e.g. `√(0.7900 × 0.7603) = √0.6006 = 0.7750` */
+  readonly formula: string;
+}
+
+export interface Inspection {
+  readonly kind: "JSONScores" | "CurvedScores";
+  /** scores_id, or curved_scores_id for curved files */
+  readonly id: string;
+  readonly participant_id: string;
+  readonly event_id: string;
+  readonly prompt_version_hash: string;
+  readonly dimension_map: { readonly map_id: string; readonly label: string };
+  /** AggregationStrategy.strategy_id */
+  readonly aggregation: string;
+  readonly applied_curve_id: string | null;
+  readonly problems: readonly ProblemInspection[];
+  readonly abilities: { readonly [K in Dimension]: AbilityInspection };
+  readonly totals: {
+    readonly total_problem_score: TotalInspection;
+    readonly total_ability_score: TotalInspection;
+    readonly final_total_score: TotalInspection;
+  };
+}
+
+const fixed = (n: number) => n.toFixed(4);
+
+const inspect = (
+  scores: JSONScores,
+  curved: CurvedScores | undefined
+): Inspection => {
+  const problemGrades = new Map(
+    (curved?.problem_grades ?? []).map((g) => [g.problem_id.digit, g])
+  );
+  const graded = (score: number, grade: LetterGrade | undefined) => ({
+    score,
+    grade: grade ?? null,
+  });
+
+  const problems = scores.problem_scores.map((p) => {
+    const grades = problemGrades.get(p.problem_id.digit);
+    const dimensions = Object.fromEntries(
+      DIMENSIONS.map((dim) => [
+        dim,
+        Option.match(p.dimension_scores[dim], {
+          onNone: () => null,
+          onSome: (score) =>
+            graded(
+              score,
+              grades && Option.getOrUndefined(grades.dimension_grades[dim])
+            ),
+        }),
+      ])
+    ) as ProblemInspection["dimensions"];
+    return {
+      digit: p.problem_id.digit,
+      name: p.problem_id.name,
+      task: graded(p.task_score, grades?.task_grade),
+      dimensions,
+    };
+  });
+
+  const abilityScores = scores.ability_scores;
+  const explanation = explainScores(scores);
+  const abilities = Object.fromEntries(
+    DIMENSIONS.map((dim) => [
+      dim,
+      {
+        score: Option.getOrNull(abilityScores[dim]),
+        grade: curved ? Option.getOrNull(curved.ability_grades[dim]) : null,
+        measured_by: scores.problem_scores.filter((p) =>
+          Option.isSome(p.dimension_scores[dim])
+        ).length,
+        formula: explanation.abilities[dim].formula,
+      },
+    ])
+  ) as Inspection["abilities"];
+
+  const totals = scores.totals;
+  const formulas = explanation.totals;
+  const grades = curved?.total_grades;
+
+  return {
+    kind: curved ? "CurvedScores" : "JSONScores",
+    id: curved ? curved.curved_scores_id : scores.scores_id,
+    participant_id: scores.participant_id,
+    event_id: scores.event_id,
+    prompt_version_hash: scores.prompt_version_hash,
+    dimension_map: {
+      map_id: scores.dimension_map.map_id,
+      label: scores.dimension_map.label,
+    },
+    aggregation: scores.aggregation.strategy_id,
+    applied_curve_id: curved?.applied_curve_id ?? null,
+    problems,
+    abilities,
+    totals: {
+      total_problem_score: {
+        ...graded(totals.total_problem_score, grades?.total_problem_grade),
+        formula: formulas.total_problem_score.formula,
+      },
+      total_ability_score: {
+        ...graded(totals.total_ability_score, grades?.total_ability_grade),
+        formula: formulas.total_ability_score.formula,
+      },
+      final_total_score: {
+        ...graded(totals.final_total_score, grades?.final_total_grade),
+        formula: formulas.final_total_score.formula,
+      },
+    },
+  };
+};
+
+export const inspectScores = (scores: JSONScores): Inspection =>
+  inspect(scores, undefined);
+
+export const inspectCurvedScores = (curved: CurvedScores): Inspection =>
+  inspect(curved.source, curved);
+
+// =============================================================================
+// Terminal layout
+// =============================================================================
+
+export interface RenderOptions {
+  /** ANSI colours: grades A green, B cyan, C yellow, D red; None dimmed */
+  readonly color?: boolean;
+}
+
+const ANSI = {
+  A: "\x1b[32m",
+  B: "\x1b[36m",
+  C: "\x1b[33m",
+  D: "\x1b[31m",
+  dim: "\x1b[2m",
+  bold: "\x1b[1m",
+  reset: "\x1b[0m",
+} as const;
+
+/** "Discovery-Self-Understanding" → "Discovery" */
+const shortName = (dim: Dimension) => dim.split("-")[0];
+
+export const renderInspection = (
+  inspection: Inspection,
+  options: RenderOptions = {}
+): string => {
+  const paint = (style: keyof typeof ANSI, text: string) =>
+    options.color ? `${ANSI[style]}${text}${ANSI.reset}` : text;
+
+  /** Score plus grade, padded on the visible text before colouring */
+  const cell = (value: InspectedScore | null, width: number) => {
+    if (value === null) return paint("dim", "—".padEnd(width));
+    const text = fixed(value.score);
+    if (value.grade === null) return text.padEnd(width);
+    return `${text} ${paint(value.grade, value.grade)}`.padEnd(
+      width + (options.color ? ANSI.A.length + ANSI.reset.length : 0)
+    );
+  };
+
+  const problemWidth = Math.max(
+    "Problem".length,
+    ...inspection.problems.map((p) => `${p.digit} ${p.name}`.length)
+  );
+  const columns = ["Task", ...DIMENSIONS.map(shortName)];
+  const width = Math.max(8, ...columns.map((c) => c.length)) + 2;
+  const row = (first: string, cells: readonly string[]) =>
+    `  ${first.padEnd(problemWidth)}  ${cells.join("")}`.trimEnd();
+
+  const abilityWidth = Math.max(...DIMENSIONS.map((dim) => dim.length));
+  const totalWidth = "total_problem_score".length;
+  const { totals } = inspection;
+
+  return [
+    paint(
+      "bold",
+      `${inspection.kind} ${inspection.id} — ${inspection.participant_id}, ${inspection.event_id}`
+    ),
+    `prompt ${inspection.prompt_version_hash} · dimension map "${inspection.dimension_map.label}" (${inspection.dimension_map.map_id}) · aggregation ${inspection.aggregation}` +
+      (inspection.applied_curve_id
+        ? ` · curve ${inspection.applied_curve_id}`
+        : ""),
+    "",
+    paint("bold", "Problems"),
+    row("Problem", columns.map((c) => c.padEnd(width))),
+    ...inspection.problems.map((p) =>
+      row(`${p.digit} ${p.name}`, [
+        cell(p.task, width),
+        ...DIMENSIONS.map((dim) => cell(p.dimensions[dim], width)),
+      ])
+    ),
+    "",
+    paint("bold", "Abilities"),
+    ...DIMENSIONS.map((dim) => {
+      const ability = inspection.abilities[dim];
+      const score =
+        ability.score === null
+          ? null
+          : { score: ability.score, grade: ability.grade };
+      return `  ${dim.padEnd(abilityWidth)}  ${cell(score, width)}${paint("dim", ability.formula)}`;
+    }),
+    "",
+    paint("bold", "Totals"),
+    ...(
+      [
+        "total_problem_score",
+        "total_ability_score",
+        "final_total_score",
+      ] as const
+    ).map(
+      (key) =>
+        `  ${key.padEnd(totalWidth)}  ${cell(totals[key], width)}${paint("dim", totals[key].formula)}`
+    ),
+  ].join("\n");
+};
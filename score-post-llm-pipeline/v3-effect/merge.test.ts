@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import { DateTime, Option } from "effect";
+import {
+  CurvedReportSchema,
+  LLMReportSchema,
+} from "../v1-vitest/schema-verify-v1.js";
+import {
+  JSONScores,
+  decodeProblemDimensionMap,
+  decodeScorePool,
+  type CurvedScores,
+} from "./schemas.js";
+import { computeCurve } from "./curve.js";
+import { applyCurve } from "./apply-curve.js";
+import {
+  extractScores,
+  ExtractionError,
+  type ExtractOptions,
+} from "./extract.js";
+import { mergeCurvedScores, MergeError } from "./merge.js";
+import {
+  PROMPT_HASH,
+  dimMapStored,
+  makePoolStored,
+  makeReportStored,
+  makeScoresStored,
+} from "./test-fixtures.js";
+
+const options: ExtractOptions = {
+  promptVersionHash: PROMPT_HASH,
+  dimensionMap: decodeProblemDimensionMap(dimMapStored),
+};
+
+const curve = computeCurve(
+  decodeScorePool(
+    makePoolStored([
+      makeScoresStored(1, [0.2, 0.3, 0.4]),
+      makeScoresStored(2, [0.4, 0.5, 0.6]),
+      makeScoresStored(3, [0.6, 0.7, 0.8]),
+      makeScoresStored(4, [0.8, 0.9, 1.0]),
+    ])
+  )
+);
+
+/** Report → JSONScores → CurvedScores, as the pipeline runs it */
+const curveReport = (stored: unknown) => {
+  const report = LLMReportSchema.parse(stored);
+  return { report, curved: applyCurve(extractScores(report, options), curve) };
+};
+
+describe("mergeCurvedScores", () => {
+  const { report, curved } = curveReport(makeReportStored(9, [0.9, 0.5, 0.1]));
+  const merged = mergeCurvedScores(report, curved);
+
+  it("returns a valid CurvedReport", () => {
+    expect(CurvedReportSchema.safeParse(merged).success).toBe(true);
+  });
+
+  it("stamps the curve into the metadata", () => {
+    expect(merged.metadata.curveId).toBe(curve.curve_id);
+    expect(merged.metadata.curvedAt).toBe(
+      DateTime.formatIso(curved.curved_at)
+    );
+    expect(merged.metadata.reportId).toBe(report.metadata.reportId);
+  });
+
+  it("fills problem grades from task grades", () => {
+    const taskGrades = curved.problem_grades.map((g) => g.task_grade);
+    expect(merged.problemCards.map((c) => c.grade)).toEqual(taskGrades);
+    expect(merged.problemReports.map((p) => p.grade)).toEqual(taskGrades);
+    expect(taskGrades).toEqual(["A", "C", "D"]);
+  });
+
+  it("fills dimension grades per problem and per ability", () => {
+    const detail = merged.problemReports[0].dimensionDetails[0];
+    expect(detail.dimension).toBe("discovery");
+    expect(Option.some(detail.grade)).toEqual(
+      curved.problem_grades[0].dimension_grades["Discovery-Self-Understanding"]
+    );
+
+    const representation = merged.dimensionReports.find(
+      (r) => r.dimension === "representation"
+    );
+    expect(representation?.grade).toBe(
+      Option.getOrNull(curved.ability_grades["Expression-Translation"])
+    );
+    expect(representation?.problems.map((p) => p.grade)).toEqual(
+      ["000340-meeting-verify", "001001-ling-bing"].map((id) => {
+        const g = curved.problem_grades.find(
+          (p) => `${p.problem_id.digit}-${p.problem_id.name}` === id
+        );
+        return Option.getOrThrow(
+          g!.dimension_grades["Expression-Translation"]
+        );
+      })
+    );
+    expect(merged.dimensionCards.map((c) => c.grade)).toEqual(
+      merged.dimensionReports.map((r) => r.grade)
+    );
+  });
+
+  it("sets the top-level grade from the final total", () => {
+    expect(merged.grade).toBe(curved.total_grades.final_total_grade);
+  });
+
+  it("leaves scores and text untouched", () => {
+    expect(merged.problemReports.map((p) => p.score)).toEqual([0.9, 0.5, 0.1]);
+    expect(merged.overall).toEqual(report.overall);
+  });
+});
+
+describe("mergeCurvedScores mismatches", () => {
+  const { report, curved } = curveReport(makeReportStored(9, [0.5, 0.5, 0.5]));
+  const withSource = (patch: Partial<JSONScores>): CurvedScores => ({
+    ...curved,
+    source: new JSONScores({ ...curved.source, ...patch }),
+  });
+
+  it("rejects another participant's scores", () => {
+    expect(() =>
+      mergeCurvedScores(report, withSource({ participant_id: "student-0001" }))
+    ).toThrow("Participant mismatch");
+  });
+
+  it("rejects scores from another event", () => {
+    expect(() =>
+      mergeCurvedScores(report, withSource({ event_id: "other-event" as JSONScores["event_id"] }))
+    ).toThrow("Event mismatch");
+  });
+
+  it("rejects a report with a problem the curved scores lack", () => {
+    const partial = {
+      ...curved,
+      problem_grades: curved.problem_grades.slice(1),
+    };
+    expect(() => mergeCurvedScores(report, partial)).toThrow(MergeError);
+  });
+
+  it("rejects curved scores with a problem the report lacks", () => {
+    const shorter = {
+      ...report,
+      problemCards: report.problemCards.slice(0, 2),
+      problemReports: report.problemReports.slice(0, 2),
+    };
+    expect(() => mergeCurvedScores(shorter, curved)).toThrow(
+      "Curved scores grade problems the report does not contain: 001001"
+    );
+  });
+
+  it("rejects a dimension detail whose curved grade is None", () => {
+    // Decoding rules this out; a CurvedScores built in code can still carry it
+    const [first, ...rest] = curved.problem_grades;
+    const ungraded: CurvedScores = {
+      ...curved,
+      problem_grades: [
+        {
+          ...first,
+          dimension_grades: {
+            ...first.dimension_grades,
+            "Expression-Translation": Option.none(),
+          },
+        },
+        ...rest,
+      ],
+    };
+    expect(() => mergeCurvedScores(report, ungraded)).toThrow(
+      "Problem 000340-meeting-verify has no curved grade for representation"
+    );
+  });
+});
+
+describe("extract → curve → merge round trip", () => {
+  /** Problem 000340 with a null detail for a dimension it does not map */
+  const withUnmappedDetail = () => {
+    const stored = makeReportStored(9, [0.5, 0.5, 0.5]);
+    const [first] = stored.problemReports;
+    first.dimensionDetails.push({
+      ...first.dimensionDetails[0],
+      dimension: "self-verification",
+      score: null as unknown as number,
+    });
+    return stored;
+  };
+
+  it("rejects at extraction a detail that merging could not grade", () => {
+    expect(() => curveReport(withUnmappedDetail())).toThrow(ExtractionError);
+  });
+
+  it("merges every detail of a report that extracts", () => {
+    const stored = withUnmappedDetail();
+    stored.problemReports[0].dimensionDetails.pop();
+    const { report, curved } = curveReport(stored);
+    expect(
+      CurvedReportSchema.safeParse(mergeCurvedScores(report, curved)).success
+    ).toBe(true);
+  });
+});
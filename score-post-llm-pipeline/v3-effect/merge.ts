@@ -0,0 +1,134 @@
+/**
+ * Merge Back (phase 6) — v1 LLMReport + CurvedScores → v1 CurvedReport
+ *
+ * Every uncurved "X" grade in the report is replaced by its curved grade:
+ *   dimensionCards[].grade                    ← ability_grades[dim]
+ *   dimensionReports[].grade                  ← ability_grades[dim]
+ *   dimensionReports[].problems[].grade       ← dimension_grades[dim]
+ *   problemCards[].grade                      ← task_grade
+ *   problemReports[].grade                    ← task_grade
+ *   problemReports[].dimensionDetails[].grade ← dimension_grades[dim]
+ *   grade                                     ← final_total_grade
+ *   metadata.curveId / curvedAt               ← applied_curve_id / curved_at
+ *
+ * Scores and narrative text are left untouched. The report and the curved
+ * scores must describe the same participant, event and problem set; any
+ * grade the curved scores cannot supply (a None dimension or ability grade)
+ * is an error, not a guess. The result is validated against
+ * CurvedReportSchema.
+ */
+
+import { Data, DateTime, Option } from "effect";
+import {
+  decodeLegacyDimension,
+  type CurvedScores,
+  type LetterGrade,
+  type ProblemGrade,
+} from "./schemas.js";
+import { splitProblemId } from "./extract.js";
+import {
+  CurvedReportSchema,
+  type CurvedReport,
+  type LLMReport,
+} from "../v1-vitest/schema-verify-v1.js";
+
+export class MergeError extends Data.TaggedError("MergeError")<{
+  readonly message: string;
+}> {}
+
+export const mergeCurvedScores = (
+  report: LLMReport,
+  curved: CurvedScores
+): CurvedReport => {
+  const { metadata } = report;
+  const source = curved.source;
+  if (source.participant_id !== metadata.participantId) {
+    throw new MergeError({
+      message: `Participant mismatch: report ${metadata.participantId}, curved scores ${source.participant_id}`,
+    });
+  }
+  if (source.event_id !== metadata.eventId) {
+    throw new MergeError({
+      message: `Event mismatch: report ${metadata.eventId}, curved scores ${source.event_id}`,
+    });
+  }
+
+  const byDigit = new Map<string, ProblemGrade>(
+    curved.problem_grades.map((g) => [g.problem_id.digit, g])
+  );
+  const reported = new Set(
+    report.problemReports.map((p) => splitProblemId(p.problemId).digit)
+  );
+  const unreported = [...byDigit.keys()].filter((d) => !reported.has(d));
+  if (unreported.length > 0) {
+    throw new MergeError({
+      message: `Curved scores grade problems the report does not contain: ${unreported.join(", ")}`,
+    });
+  }
+
+  const problemGrade = (problemId: string): ProblemGrade => {
+    const grade = byDigit.get(splitProblemId(problemId).digit);
+    if (grade === undefined) {
+      throw new MergeError({
+        message: `Curved scores have no grades for problem ${problemId}`,
+      });
+    }
+    return grade;
+  };
+  const dimensionGrade = (
+    problemId: string,
+    dimension: string
+  ): LetterGrade => {
+    const dim = decodeLegacyDimension(dimension);
+    const grade = problemGrade(problemId).dimension_grades[dim];
+    if (Option.isNone(grade)) {
+      throw new MergeError({
+        message: `Problem ${problemId} has no curved grade for ${dimension}`,
+      });
+    }
+    return grade.value;
+  };
+  const abilityGrade = (dimension: string): LetterGrade => {
+    const grade = curved.ability_grades[decodeLegacyDimension(dimension)];
+    if (Option.isNone(grade)) {
+      throw new MergeError({
+        message: `Dimension ${dimension} was not measured and has no curved grade`,
+      });
+    }
+    return grade.value;
+  };
+
+  return CurvedReportSchema.parse({
+    ...report,
+    metadata: {
+      ...metadata,
+      curveId: curved.applied_curve_id,
+      curvedAt: DateTime.formatIso(curved.curved_at),
+    },
+    dimensionCards: report.dimensionCards.map((card) => ({
+      ...card,
+      grade: abilityGrade(card.dimension),
+    })),
+    dimensionReports: report.dimensionReports.map((r) => ({
+      ...r,
+      problems: r.problems.map((p) => ({
+        ...p,
+        grade: dimensionGrade(p.problemId, r.dimension),
+      })),
+      grade: abilityGrade(r.dimension),
+    })),
+    problemCards: report.problemCards.map((card) => ({
+      ...card,
+      grade: problemGrade(card.problemId).task_grade,
+    })),
+    problemReports: report.problemReports.map((p) => ({
+      ...p,
+      dimensionDetails: p.dimensionDetails.map((d) => ({
+        ...d,
+        grade: dimensionGrade(p.problemId, d.dimension),
+      })),
+      grade: problemGrade(p.problemId).task_grade,
+    })),
+    grade: curved.total_grades.final_total_grade,
+  });
+};
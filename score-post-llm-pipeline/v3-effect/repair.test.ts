@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { Schema } from "effect";
+import { LLMReportSchema } from "../v1-vitest/schema-verify-v1.js";
+import { JSONScores, decodeProblemDimensionMap } from "./schemas.js";
+import { extractScores } from "./extract.js";
+import { repairReport, wasRepaired } from "./repair.js";
+import { PROMPT_HASH, dimMapStored, makeReportStored } from "./test-fixtures.js";
+
+/** A report on a 0–100 scale, with one of each other repairable defect */
+const brokenReport = () => {
+  const stored: any = makeReportStored(1, [90, 60, 30]);
+  stored.problemReports[0].score = "90";
+  stored.problemReports[1].dimensionDetails[0].score = "60";
+  stored.problemReports[2].good = null;
+  stored.overall.overview = null;
+  return stored;
+};
+
+describe("repairReport", () => {
+  it("lets a broken report pass LLMReportSchema", () => {
+    expect(LLMReportSchema.safeParse(brokenReport()).success).toBe(false);
+    const { report } = repairReport(brokenReport());
+    expect(LLMReportSchema.safeParse(report).success).toBe(true);
+  });
+
+  it("logs every repair with its path, original and repaired value", () => {
+    const { log } = repairReport(brokenReport());
+    // 2 nulls + 3 task scores + 11 dimension details
+    expect(log).toHaveLength(16);
+    expect(log.slice(0, 3)).toEqual([
+      {
+        path: "$.overall.overview",
+        original: null,
+        repaired: "",
+        rules: ["null_to_empty"],
+      },
+      {
+        path: "$.problemReports[0].score",
+        original: "90",
+        repaired: 0.9,
+        rules: ["numeric_string", "percent_scale"],
+      },
+      {
+        path: "$.problemReports[0].dimensionDetails[0].score",
+        original: 90,
+        repaired: 0.9,
+        rules: ["percent_scale"],
+      },
+    ]);
+    expect(log).toContainEqual({
+      path: "$.problemReports[2].good",
+      original: null,
+      repaired: [],
+      rules: ["null_to_empty"],
+    });
+  });
+
+  it("rescales every score of a 0–100 report, zeros included", () => {
+    const stored: any = makeReportStored(2, [80, 0, 45]);
+    const report: any = repairReport(stored).report;
+    expect(report.problemReports.map((p: any) => p.score)).toEqual([
+      0.8, 0, 0.45,
+    ]);
+    expect(report.problemReports[2].dimensionDetails[0].score).toBe(0.45);
+  });
+
+  it("leaves a report that mixes scales for the schema to reject", () => {
+    const mixed: any = makeReportStored(2, [0.5, 1, 0.5]);
+    mixed.problemReports[0].score = "80";
+    const { report, log } = repairReport(mixed);
+    expect(log).toEqual([
+      {
+        path: "$.problemReports[0].score",
+        original: "80",
+        repaired: 80,
+        rules: ["numeric_string"],
+      },
+    ]);
+    expect((report as any).problemReports[1].score).toBe(1);
+    expect(LLMReportSchema.safeParse(report).success).toBe(false);
+
+    const typo: any = makeReportStored(2, [0.5, 0.5, 0.5]);
+    typo.problemReports[1].score = 1.5;
+    expect(repairReport(typo).log).toEqual([]);
+  });
+
+  it("does not modify its input", () => {
+    const stored = brokenReport();
+    repairReport(stored);
+    expect(stored.problemReports[0].score).toBe("90");
+  });
+
+  it("applies only the rules it is given", () => {
+    const { log } = repairReport(brokenReport(), ["numeric_string"]);
+    expect(log.map((e) => e.path)).toEqual([
+      "$.problemReports[0].score",
+      "$.problemReports[1].dimensionDetails[0].score",
+    ]);
+    expect(log[1].repaired).toBe(60);
+  });
+
+  it("leaves valid reports and legal null scores alone", () => {
+    const stored: any = makeReportStored(2, [0.5, 0.5, 0.5]);
+    stored.problemReports[0].score = null;
+    expect(repairReport(stored)).toEqual({ report: stored, log: [] });
+  });
+
+  it("does not guess at values it cannot read", () => {
+    const stored: any = makeReportStored(3, [0.5, 0.5, 0.5]);
+    stored.problemReports[0].score = "high";
+    stored.problemReports[1].score = 250;
+    const { report, log } = repairReport(stored);
+    expect(log).toEqual([]);
+    expect(LLMReportSchema.safeParse(report).success).toBe(false);
+  });
+});
+
+describe("repair provenance", () => {
+  const extract = (stored: unknown) => {
+    const { report, log } = repairReport(stored);
+    return extractScores(LLMReportSchema.parse(report), {
+      promptVersionHash: PROMPT_HASH,
+      dimensionMap: decodeProblemDimensionMap(dimMapStored),
+      repairs: log,
+    });
+  };
+
+  it("marks scores extracted from a repaired report", () => {
+    const scores = extract(brokenReport());
+    expect(wasRepaired(scores)).toBe(true);
+    expect(scores.repairs).toHaveLength(16);
+    expect(scores.problem_scores[2].task_score).toBe(0.3);
+  });
+
+  it("leaves clean reports unmarked", () => {
+    expect(wasRepaired(extract(makeReportStored(4, [0.5, 0.5, 0.5])))).toBe(
+      false
+    );
+  });
+
+  it("keeps the repair log through an encode/decode round trip", () => {
+    const scores = extract(brokenReport());
+    const encoded = Schema.encodeSync(JSONScores)(scores);
+    expect(Schema.decodeSync(JSONScores)(encoded).repairs).toEqual(
+      scores.repairs
+    );
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Repair (opt-in, before phase 3) — normalize raw LLM output before decoding
+ *
+ * LLM output sometimes breaks LLMReportSchema in predictable ways. Instead of
+ * dropping such a report, the caller may run a declared set of rules over
+ * the raw JSON first:
+ *
+ *   numeric_string  a score given as a string: "0.8" → 0.8
+ *   percent_scale   a report on a 0–100 scale: 80 → 0.8, 0 stays 0
+ *   null_to_empty   null where the schema wants a string or an array: "" / []
+ *
+ * Scores are every `score` field plus taskEvalMean, abilityMean and
+ * overallMean. The scale is decided once per report, never per value: a
+ * report is on 0–100 only if every score is 0 or in (1, 100], and then all
+ * of them are divided by 100 together. A report that mixes scales (say one
+ * 80 among 0.5s, or a 1.5 typo) is left alone for the schema to reject.
+ * Null scores are legal in v1 and are never touched; nothing is invented.
+ * Every change is logged with its JSON path, original and repaired value.
+ * Passing the log to extractScores records it in JSONScores.repairs, so
+ * repaired scores can be audited or kept out of curve pools.
+ */
+
+import { Array as Arr } from "effect";
+import {
+  REPAIR_RULES,
+  type JSONScores,
+  type RepairEntry,
+  type RepairRule,
+} from "./schemas.js";
+
+export interface RepairResult {
+  /** The repaired copy; the input is not modified */
+  readonly report: unknown;
+  readonly log: readonly RepairEntry[];
+}
+
+type Slot = "score" | "string" | "array";
+
+const isRecord = (u: unknown): u is Record<string, unknown> =>
+  typeof u === "object" && u !== null && !Array.isArray(u);
+
+const records = (u: unknown): Record<string, unknown>[] =>
+  Array.isArray(u) ? u.filter(isRecord) : [];
+
+/** A value the traversal visited, with the rules applied to it so far */
+interface Fix {
+  readonly parent: Record<string, unknown>;
+  readonly key: string;
+  readonly path: string;
+  readonly slot: Slot;
+  readonly original: unknown;
+  value: unknown;
+  readonly applied: RepairRule[];
+}
+
+export const repairReport = (
+  raw: unknown,
+  rules: readonly RepairRule[] = REPAIR_RULES
+): RepairResult => {
+  const report: unknown = structuredClone(raw);
+  const enabled = new Set(rules);
+  const fixes: Fix[] = [];
+
+  // Per-value rules; percent_scale needs every score first
+  const fix = (
+    parent: Record<string, unknown>,
+    key: string,
+    path: string,
+    slot: Slot
+  ) => {
+    const original = parent[key];
+    const visited: Fix = {
+      parent,
+      key,
+      path,
+      slot,
+      original,
+      value: original,
+      applied: [],
+    };
+    if (slot === "score") {
+      if (
+        enabled.has("numeric_string") &&
+        typeof original === "string" &&
+        original.trim() !== "" &&
+        Number.isFinite(Number(original))
+      ) {
+        visited.value = Number(original);
+        visited.applied.push("numeric_string");
+      }
+    } else if (enabled.has("null_to_empty") && original === null) {
+      visited.value = slot === "string" ? "" : [];
+      visited.applied.push("null_to_empty");
+    }
+    if (visited.applied.length > 0) parent[key] = visited.value;
+    fixes.push(visited);
+  };
+
+  const finish = (): RepairResult => {
+    const scores = fixes.filter(
+      (f): f is Fix & { value: number } =>
+        f.slot === "score" && typeof f.value === "number"
+    );
+    if (
+      enabled.has("percent_scale") &&
+      scores.some((f) => f.value > 1) &&
+      scores.every((f) => f.value === 0 || (f.value > 1 && f.value <= 100))
+    ) {
+      for (const f of scores) {
+        f.value = f.value / 100;
+        f.applied.push("percent_scale");
+        f.parent[f.key] = f.value;
+      }
+    }
+    const log = fixes.flatMap(({ key, path, original, value, applied }) =>
+      Arr.isNonEmptyArray(applied)
+        ? [{ path: `${path}.${key}`, original, repaired: value, rules: applied }]
+        : []
+    );
+    return { report, log };
+  };
+
+  if (!isRecord(report)) return finish();
+
+  // Containers first, so null arrays become [] before their items are visited
+  for (const key of [
+    "dimensionCards",
+    "dimensionReports",
+    "problemCards",
+    "problemReports",
+  ]) {
+    fix(report, key, "$", "array");
+  }
+  for (const key of ["taskEvalMean", "abilityMean", "overallMean"]) {
+    fix(report, key, "$", "score");
+  }
+
+  if (isRecord(report.overall)) {
+    for (const key of ["bad", "good", "improvements"]) {
+      fix(report.overall, key, "$.overall", "array");
+    }
+    fix(report.overall, "overview", "$.overall", "string");
+  }
+
+  records(report.dimensionCards).forEach((card, i) => {
+    fix(card, "phrases", `$.dimensionCards[${i}]`, "string");
+  });
+
+  records(report.dimensionReports).forEach((r, i) => {
+    const path = `$.dimensionReports[${i}]`;
+    fix(r, "problems", path, "array");
+    fix(r, "summary", path, "string");
+    fix(r, "score", path, "score");
+    records(r.problems).forEach((p, k) => {
+      fix(p, "phrases", `${path}.problems[${k}]`, "string");
+    });
+  });
+
+  records(report.problemReports).forEach((p, i) => {
+    const path = `$.problemReports[${i}]`;
+    fix(p, "bad", path, "array");
+    fix(p, "good", path, "array");
+    fix(p, "dimensionDetails", path, "array");
+    fix(p, "overview", path, "string");
+    fix(p, "score", path, "score");
+    records(p.dimensionDetails).forEach((d, j) => {
+      const detailPath = `${path}.dimensionDetails[${j}]`;
+      fix(d, "proofs", detailPath, "array");
+      fix(d, "summary", detailPath, "string");
+      fix(d, "score", detailPath, "score");
+    });
+  });
+
+  return finish();
+};
+
+/** Were these scores extracted from a repaired report? */
+export const wasRepaired = (scores: JSONScores): boolean =>
+  scores.repairs.length > 0;
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { Option } from "effect";
+import { LLMReportSchema } from "../v1-vitest/schema-verify-v1.js";
+import { decodeProblemDimensionMap } from "./schemas.js";
+import { extractScores } from "./extract.js";
+import {
+  checkReportAggregates,
+  DEFAULT_AGGREGATE_TOLERANCE,
+} from "./report-consistency.js";
+import { PROMPT_HASH, dimMapStored, makeReportStored } from "./test-fixtures.js";
+
+const dimensionMap = decodeProblemDimensionMap(dimMapStored);
+
+/** A report whose aggregates are exactly what the formulas give for `map` */
+const consistentReport = (map = dimensionMap) => {
+  const stored = makeReportStored(1, [0.9, 0.6, 0.3], (i, dim) =>
+    dim === "Expression-Translation" ? 0.2 : 0.3 * (i + 1)
+  );
+  const scores = extractScores(LLMReportSchema.parse(stored), {
+    promptVersionHash: PROMPT_HASH,
+    dimensionMap: map,
+  });
+  return LLMReportSchema.parse({
+    ...stored,
+    dimensionReports: stored.dimensionReports.map((r, i) => ({
+      ...r,
+      score: Option.getOrNull(Object.values(scores.ability_scores)[i]),
+    })),
+    taskEvalMean: scores.totals.total_problem_score,
+    abilityMean: scores.totals.total_ability_score,
+    overallMean: scores.totals.final_total_score,
+  });
+};
+
+describe("checkReportAggregates", () => {
+  it("accepts aggregates that match the formulas", () => {
+    expect(checkReportAggregates(consistentReport())).toEqual([]);
+  });
+
+  it("accepts differences within the tolerance", () => {
+    const report = consistentReport();
+    const nudge = DEFAULT_AGGREGATE_TOLERANCE / 2;
+    report.taskEvalMean = report.taskEvalMean! + nudge;
+    expect(checkReportAggregates(report)).toEqual([]);
+  });
+
+  it("reports each hallucinated aggregate with its JSON path", () => {
+    const report = consistentReport();
+    report.dimensionReports[1].score = 0.9;
+    report.overallMean = 0.1;
+    expect(checkReportAggregates(report)).toEqual([
+      { path: "$.dimensionReports[1].score", reported: 0.9, expected: 0.2 },
+      {
+        path: "$.overallMean",
+        reported: 0.1,
+        expected: consistentReport().overallMean,
+      },
+    ]);
+  });
+
+  it("honours a custom tolerance", () => {
+    const report = consistentReport();
+    report.abilityMean = report.abilityMean! + 0.02;
+    expect(checkReportAggregates(report)).toHaveLength(1);
+    expect(checkReportAggregates(report, { tolerance: 0.05 })).toEqual([]);
+  });
+
+  it("flags a missing aggregate the formulas can compute", () => {
+    const report = consistentReport();
+    report.taskEvalMean = null;
+    expect(checkReportAggregates(report)).toEqual([
+      { path: "$.taskEvalMean", reported: null, expected: 0.6 },
+    ]);
+  });
+
+  it("expects null for a dimension no problem scored", () => {
+    const report = consistentReport();
+    for (const p of report.problemReports) {
+      p.dimensionDetails = p.dimensionDetails.filter(
+        (d) => d.dimension !== "exploratory"
+      );
+    }
+    const index = report.dimensionReports.findIndex(
+      (r) => r.dimension === "exploratory"
+    );
+    const mismatches = checkReportAggregates(report);
+    expect(mismatches[0]).toEqual({
+      path: `$.dimensionReports[${index}].score`,
+      reported: report.dimensionReports[index].score,
+      expected: null,
+    });
+  });
+
+  it("weights ability scores by the dimension map's edges", () => {
+    const weighted = decodeProblemDimensionMap({
+      ...dimMapStored,
+      entries: dimMapStored.entries.map((e, i) =>
+        i === 0 ? { ...e, weights: { "Discovery-Self-Understanding": 3 } } : e
+      ),
+    });
+    const report = consistentReport(weighted);
+    expect(checkReportAggregates(report, { dimensionMap: weighted })).toEqual(
+      []
+    );
+    expect(checkReportAggregates(report).map((m) => m.path)).toContain(
+      "$.dimensionReports[0].score"
+    );
+  });
+});
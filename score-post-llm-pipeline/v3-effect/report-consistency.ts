@@ -0,0 +1,110 @@
+/**
+ * Report consistency — do the LLM's own aggregates match the formulas?
+ *
+ * A v1 LLMReport carries aggregates the LLM computed itself. They are
+ * recomputed from the per-problem scores with the JSONScores formulas
+ * (deriveAbilityScores / deriveTotals) and compared:
+ *
+ *   dimensionReports[i].score  ↔ ability_scores[dim]
+ *   taskEvalMean               ↔ totals.total_problem_score
+ *   abilityMean                ↔ totals.total_ability_score
+ *   overallMean                ↔ totals.final_total_score
+ *
+ * Every disagreement beyond the tolerance is reported with its JSON path, so
+ * arithmetic hallucinations are caught before the report reaches a curve.
+ * A dimension no problem scored is expected to be null; as in the getters,
+ * it is left out of abilityMean (or fails, under a "fail" strategy). The
+ * formulas are the default aggregation strategy with unit edge weights
+ * unless the caller passes the event's strategy and dimension map.
+ */
+
+import { Option } from "effect";
+import {
+  deriveAbilityScores,
+  deriveTotals,
+  decodeLegacyDimension,
+  type AggregationStrategy,
+  type ProblemDimensionMap,
+} from "./schemas.js";
+import { byDimension } from "./curve.js";
+import { splitProblemId } from "./extract.js";
+import type { LLMReport } from "../v1-vitest/schema-verify-v1.js";
+
+export interface AggregateMismatch {
+  /** JSON path into the report, e.g. `$.dimensionReports[2].score` */
+  readonly path: string;
+  readonly reported: number | null;
+  readonly expected: number | null;
+}
+
+/** Half a point on a 0–100 scale: values rounded to 2 decimals pass */
+export const DEFAULT_AGGREGATE_TOLERANCE = 0.005;
+
+export interface ReportConsistencyOptions {
+  /** Largest accepted |reported − expected| */
+  readonly tolerance?: number;
+  /** Formulas the aggregates should follow (default: DEFAULT_AGGREGATION) */
+  readonly aggregation?: AggregationStrategy;
+  /** Edge weights for the ability scores (default: every edge weighs 1) */
+  readonly dimensionMap?: ProblemDimensionMap;
+}
+
+export const checkReportAggregates = (
+  report: LLMReport,
+  options: ReportConsistencyOptions = {}
+): readonly AggregateMismatch[] => {
+  const tolerance = options.tolerance ?? DEFAULT_AGGREGATE_TOLERANCE;
+
+  const problems = report.problemReports.map((p) => {
+    const details = new Map(
+      p.dimensionDetails.map((d) => [
+        decodeLegacyDimension(d.dimension),
+        d.score,
+      ])
+    );
+    return {
+      problem_id: splitProblemId(p.problemId),
+      task_score: p.score,
+      dimension_scores: byDimension((dim) =>
+        Option.fromNullable(details.get(dim))
+      ),
+    };
+  });
+  const abilities = deriveAbilityScores(
+    problems,
+    options.aggregation,
+    options.dimensionMap
+  );
+  const totals = deriveTotals(
+    problems.flatMap((p) =>
+      p.task_score === null ? [] : [{ ...p, task_score: p.task_score }]
+    ),
+    abilities,
+    options.aggregation
+  );
+
+  const mismatches: AggregateMismatch[] = [];
+  const compare = (
+    path: string,
+    reported: number | null,
+    expected: number | null
+  ) => {
+    const agrees =
+      reported === null || expected === null
+        ? reported === expected
+        : Math.abs(reported - expected) <= tolerance;
+    if (!agrees) mismatches.push({ path, reported, expected });
+  };
+
+  report.dimensionReports.forEach((r, i) => {
+    compare(
+      `$.dimensionReports[${i}].score`,
+      r.score,
+      Option.getOrNull(abilities[decodeLegacyDimension(r.dimension)])
+    );
+  });
+  compare("$.taskEvalMean", report.taskEvalMean, totals.total_problem_score);
+  compare("$.abilityMean", report.abilityMean, totals.total_ability_score);
+  compare("$.overallMean", report.overallMean, totals.final_total_score);
+  return mismatches;
+};
@@ -0,0 +1,92 @@
+/**
+ * JSONScores derived getters over a synthetic pool of 10k participants.
+ *
+ * Each participant's abilities and totals are read three times, as the curve
+ * phases do. "recomputed" replays the getters before memoization (totals
+ * re-derived the abilities on every read); "memoized, cold" reads fresh
+ * instances, so it includes the one derivation each; "memoized, warm" reads
+ * the cached values.
+ *
+ * The pool is kept small enough that one iteration takes about a second:
+ * vitest reports each task from the worker, and a worker blocked for much
+ * longer times out its RPC calls. Per-participant cost is what matters, and
+ * it does not depend on the pool size.
+ *
+ *   npm run bench
+ */
+
+import { bench, describe } from "vitest";
+import {
+  JSONScores,
+  decodeJSONScores,
+  deriveAbilityScores,
+  deriveTotals,
+} from "./schemas.js";
+import { seededRandom } from "./stats.js";
+import { makeScoresStored } from "./test-fixtures.js";
+
+const PARTICIPANTS = 10_000;
+const READS = 3;
+
+const random = seededRandom(2024);
+const pool = Array.from({ length: PARTICIPANTS }, (_, i) =>
+  decodeJSONScores(
+    makeScoresStored(i + 1, [random(), random(), random()], () => random())
+  )
+);
+
+const options = { iterations: 5, warmupIterations: 1, time: 0 };
+
+describe(`abilities and totals, ${READS} reads × ${PARTICIPANTS} participants`, () => {
+  bench(
+    "recomputed on every read",
+    () => {
+      for (const scores of pool) {
+        for (let read = 0; read < READS; read++) {
+          deriveAbilityScores(
+            scores.problem_scores,
+            scores.aggregation,
+            scores.dimension_map
+          );
+          deriveTotals(
+            scores.problem_scores,
+            deriveAbilityScores(
+              scores.problem_scores,
+              scores.aggregation,
+              scores.dimension_map
+            ),
+            scores.aggregation
+          );
+        }
+      }
+    },
+    options
+  );
+
+  bench(
+    "memoized, cold",
+    () => {
+      for (const source of pool) {
+        const scores = new JSONScores(source, true);
+        for (let read = 0; read < READS; read++) {
+          void scores.ability_scores;
+          void scores.totals;
+        }
+      }
+    },
+    options
+  );
+
+  bench(
+    "memoized, warm",
+    () => {
+      for (const scores of pool) {
+        for (let read = 0; read < READS; read++) {
+          void scores.ability_scores;
+          void scores.totals;
+        }
+      }
+    },
+    options
+  );
+});
@@ -0,0 +1,528 @@
+import { describe, it, expect } from "vitest";
+import { Option, Schema } from "effect";
+import {
+  AggregationStrategy,
+  CurvedScores,
+  DEFAULT_AGGREGATION,
+  LEGACY_AGGREGATION,
+  DIMENSIONS,
+  DimensionFromLegacy,
+  JSONScores,
+  LEGACY_DIMENSIONS,
+  ProblemDimensionMap,
+  decodeEventConfig,
+  decodeJSONScores,
+  decodeLegacyDimension,
+  decodeScorePool,
+  deriveTotals,
+  encodeLegacyDimension,
+  sameAggregation,
+  UnmeasuredAbilityError,
+} from "./schemas.js";
+import { DimensionSchema } from "../v1-vitest/schema-verify-v1.js";
+import { decodeWithIssues, type DecodeError } from "./decode-errors.js";
+import {
+  EVENT_ID,
+  PROMPT_HASH,
+  dimMapStored,
+  makePoolStored,
+  makeScoresStored,
+} from "./test-fixtures.js";
+
+describe("DimensionFromLegacy", () => {
+  it("covers the v1 vocabulary exactly", () => {
+    expect(Object.keys(LEGACY_DIMENSIONS).sort()).toEqual(
+      [...DimensionSchema.options].sort()
+    );
+  });
+
+  it("pairs each v1 ID with a distinct v3 dimension", () => {
+    expect(new Set(Object.values(LEGACY_DIMENSIONS)).size).toBe(
+      DIMENSIONS.length
+    );
+  });
+
+  it("decodes v1 IDs and encodes back", () => {
+    expect(decodeLegacyDimension("self-verification")).toBe(
+      "Verification-Confirmation"
+    );
+    expect(decodeLegacyDimension("representation")).toBe(
+      "Expression-Translation"
+    );
+    for (const dim of DIMENSIONS) {
+      expect(decodeLegacyDimension(encodeLegacyDimension(dim))).toBe(dim);
+    }
+  });
+
+  it("rejects retired and foreign names as unknown", () => {
+    const names = ["world-modeling", "choosing", "Expression-Translation"];
+    for (const name of names) {
+      expect(() => decodeLegacyDimension(name)).toThrow(
+        `Unknown legacy dimension "${name}"`
+      );
+    }
+  });
+
+  it("rejects names that could mean more than one dimension", () => {
+    expect(() => decodeLegacyDimension("Discovery")).toThrow(
+      'Ambiguous legacy dimension "Discovery": could be Discovery-Self-Understanding or Exploratory-Discovery'
+    );
+  });
+
+  it("fails a whole list instead of dropping the bad entry", () => {
+    const decodeList = Schema.decodeUnknownSync(
+      Schema.Array(DimensionFromLegacy)
+    );
+    expect(() => decodeList(["discovery", "world-modeling"])).toThrow(
+      "world-modeling"
+    );
+  });
+});
+
+describe("AggregationStrategy", () => {
+  const weighted = {
+    strategy_id: "weighted-2024",
+    abilities: { type: "weighted_mean", problem_weights: { "001001": 3 } },
+    total_problem: { type: "weighted_mean", problem_weights: { "000340": 2 } },
+    total_ability: {
+      type: "weighted_mean",
+      dimension_weights: {
+        "Discovery-Self-Understanding": 2,
+        "Expression-Translation": 1,
+        "Exploratory-Discovery": 1,
+        "Verification-Confirmation": 1,
+        "Iterative-Optimization": 1,
+      },
+    },
+    final_total: { type: "weighted_mean", problem_weight: 1, ability_weight: 3 },
+  };
+  const scoresWith = (aggregation?: unknown) =>
+    decodeJSONScores({
+      ...makeScoresStored(1, [0.9, 0.6, 0.3], (i, dim) =>
+        dim === "Discovery-Self-Understanding" ? [0.2, 0.4, 0.6][i] : 0.5
+      ),
+      aggregation,
+    });
+
+  it("defaults to the original formulas when absent", () => {
+    const scores = scoresWith();
+    expect(scores.aggregation).toEqual(LEGACY_AGGREGATION);
+    expect(
+      Option.getOrThrow(scores.ability_scores["Discovery-Self-Understanding"])
+    ).toBeCloseTo(0.4);
+    expect(scores.totals.total_problem_score).toBeCloseTo(0.6);
+    expect(scores.totals.final_total_score).toBeCloseTo(
+      Math.sqrt(0.6 * scores.totals.total_ability_score)
+    );
+    expect(Schema.encodeSync(AggregationStrategy)(scores.aggregation)).toEqual(
+      LEGACY_AGGREGATION
+    );
+  });
+
+  it("excludes unmeasured abilities when a strategy declares no policy", () => {
+    const { unmeasured_abilities: _, ...declared } = DEFAULT_AGGREGATION;
+    const decoded = Schema.decodeSync(AggregationStrategy)(declared);
+    expect(decoded).toEqual(DEFAULT_AGGREGATION);
+    expect(sameAggregation(decoded, LEGACY_AGGREGATION)).toBe(false);
+    expect(DEFAULT_AGGREGATION.strategy_id).not.toBe(
+      LEGACY_AGGREGATION.strategy_id
+    );
+  });
+
+  it("applies declared weights to abilities and totals", () => {
+    const scores = scoresWith(weighted);
+    // (0.2 + 0.4 + 3 × 0.6) / 5
+    expect(
+      Option.getOrThrow(scores.ability_scores["Discovery-Self-Understanding"])
+    ).toBeCloseTo(0.48);
+    // (2 × 0.9 + 0.6 + 0.3) / 4
+    expect(scores.totals.total_problem_score).toBeCloseTo(0.675);
+    // (2 × 0.48 + 4 × 0.5) / 6
+    expect(scores.totals.total_ability_score).toBeCloseTo(2.96 / 6);
+    expect(scores.totals.final_total_score).toBeCloseTo(
+      (0.675 + 3 * (2.96 / 6)) / 4
+    );
+  });
+
+  it("combines totals arithmetically when declared", () => {
+    const scores = scoresWith({
+      ...DEFAULT_AGGREGATION,
+      strategy_id: "arithmetic",
+      final_total: { type: "arithmetic_mean" },
+    });
+    const { total_problem_score, total_ability_score } = scores.totals;
+    expect(scores.totals.final_total_score).toBeCloseTo(
+      (total_problem_score + total_ability_score) / 2
+    );
+  });
+
+  it("rejects weights that are not positive and finite", () => {
+    for (const weight of [0, -1, Infinity]) {
+      expect(() =>
+        scoresWith({
+          ...weighted,
+          total_problem: {
+            type: "weighted_mean",
+            problem_weights: { "000340": weight },
+          },
+        })
+      ).toThrow();
+    }
+  });
+
+  it("compares whole strategies, ignoring key order", () => {
+    const decode = Schema.decodeUnknownSync(AggregationStrategy);
+    const reordered = decode({
+      final_total: weighted.final_total,
+      total_ability: weighted.total_ability,
+      total_problem: weighted.total_problem,
+      abilities: weighted.abilities,
+      strategy_id: weighted.strategy_id,
+    });
+    expect(sameAggregation(decode(weighted), reordered)).toBe(true);
+    expect(
+      sameAggregation(
+        decode(weighted),
+        decode({
+          ...weighted,
+          final_total: { ...weighted.final_total, ability_weight: 2 },
+        })
+      )
+    ).toBe(false);
+  });
+
+  it("keeps scores with different strategies out of one pool", () => {
+    const pool = (second: unknown) =>
+      decodeScorePool(
+        makePoolStored([makeScoresStored(1, [0.5, 0.5, 0.5]), second])
+      );
+    expect(
+      pool(makeScoresStored(2, [0.5, 0.5, 0.5])).aggregation
+    ).toEqual(DEFAULT_AGGREGATION);
+    expect(() =>
+      pool({ ...makeScoresStored(2, [0.5, 0.5, 0.5]), aggregation: weighted })
+    ).toThrow(
+      "Aggregation strategy weighted-2024 differs from pool strategy default"
+    );
+  });
+
+  it("is declared per event in EventConfig", () => {
+    const config = decodeEventConfig({
+      event_id: EVENT_ID,
+      name: "Spring 2024 final",
+      problem_ids: dimMapStored.entries.map((e) => e.problem_id),
+      language: "zh",
+      prompt_version_hash: PROMPT_HASH,
+      aggregation: weighted,
+    });
+    expect(config.aggregation.strategy_id).toBe("weighted-2024");
+    expect(
+      decodeEventConfig({ ...config, aggregation: undefined }).aggregation
+    ).toEqual(DEFAULT_AGGREGATION);
+  });
+});
+
+describe("DimMapEntry weights", () => {
+  const VERIFY = "Verification-Confirmation";
+  const weightedMap = (weights: unknown) => ({
+    ...dimMapStored,
+    entries: dimMapStored.entries.map((e, i) =>
+      i === 2 ? { ...e, weights } : e
+    ),
+  });
+  // Verification is measured by 000500 (0.4) and 001001 (0.8)
+  const scoresWith = (weights?: unknown, aggregation?: unknown) =>
+    decodeJSONScores({
+      ...makeScoresStored(1, [0.5, 0.5, 0.5], (i, dim) =>
+        dim === VERIFY ? [0, 0.4, 0.8][i] : 0.5
+      ),
+      ...(weights === undefined ? {} : { dimension_map: weightedMap(weights) }),
+      ...(aggregation === undefined ? {} : { aggregation }),
+    });
+
+  it("weighs every edge 1 when no weights are declared", () => {
+    const scores = scoresWith();
+    expect(Option.getOrThrow(scores.ability_scores[VERIFY])).toBeCloseTo(0.6);
+    expect(
+      Schema.encodeSync(ProblemDimensionMap)(scores.dimension_map).entries
+    ).toEqual(dimMapStored.entries);
+  });
+
+  it("averages abilities by edge weight", () => {
+    // (0.4 + 3 × 0.8) / 4
+    const abilities = scoresWith({ [VERIFY]: 3 }).ability_scores;
+    expect(Option.getOrThrow(abilities[VERIFY])).toBeCloseTo(0.7);
+    // Only the weighted dimension changes
+    expect(
+      Option.getOrThrow(abilities["Iterative-Optimization"])
+    ).toBeCloseTo(0.5);
+  });
+
+  it("multiplies edge weights with the strategy's problem weights", () => {
+    const scores = scoresWith(
+      { [VERIFY]: 3 },
+      {
+        ...DEFAULT_AGGREGATION,
+        strategy_id: "weighted",
+        abilities: { type: "weighted_mean", problem_weights: { "001001": 2 } },
+      }
+    );
+    // (0.4 + 6 × 0.8) / 7
+    expect(Option.getOrThrow(scores.ability_scores[VERIFY])).toBeCloseTo(
+      5.2 / 7
+    );
+  });
+
+  it("rejects weights that are not positive and finite", () => {
+    for (const weight of [0, -1, Infinity]) {
+      expect(() => scoresWith({ [VERIFY]: weight })).toThrow();
+    }
+  });
+
+  it("rejects weights on dimensions the problem does not test", () => {
+    const map = {
+      ...dimMapStored,
+      entries: dimMapStored.entries.map((e, i) =>
+        i === 0 ? { ...e, weights: { [VERIFY]: 2 } } : e
+      ),
+    };
+    expect(() => decodeWithIssues(ProblemDimensionMap)(map)).toThrow(
+      `$.entries[0].weights["${VERIFY}"]: ${VERIFY} is weighted but not in dimensions`
+    );
+  });
+});
+
+describe("ProblemDimensionMap integrity", () => {
+  const issuesFor = (entries: readonly unknown[]) => {
+    try {
+      decodeWithIssues(ProblemDimensionMap)({ ...dimMapStored, entries });
+      return [];
+    } catch (e) {
+      return (e as DecodeError).issues.map((i) => `${i.path}: ${i.message}`);
+    }
+  };
+  const [first, second] = dimMapStored.entries;
+
+  it("rejects a problem mapped twice", () => {
+    expect(issuesFor([...dimMapStored.entries, first])).toEqual([
+      "$.entries[3].problem_id: Problem 000340 is already mapped at entries[0]",
+    ]);
+  });
+
+  it("rejects one digit under two names", () => {
+    const renamed = {
+      ...first,
+      problem_id: { ...first.problem_id, name: "meeting-check" },
+    };
+    expect(issuesFor([first, second, renamed])).toEqual([
+      '$.entries[2].problem_id.name: Problem 000340 is named "meeting-check" here but "meeting-verify" at entries[0]',
+    ]);
+  });
+
+  it("rejects a dimension listed twice in one entry", () => {
+    const repeated = {
+      ...second,
+      dimensions: [...second.dimensions, second.dimensions[0]],
+    };
+    expect(issuesFor([first, repeated])).toEqual([
+      "$.entries[1].dimensions[3]: Discovery-Self-Understanding is already listed at dimensions[0]",
+    ]);
+  });
+
+  it("accepts a map that leaves a dimension unmeasured", () => {
+    expect(issuesFor([first])).toEqual([]);
+  });
+});
+
+describe("agreement with the embedded dimension map", () => {
+  const VERIFY = "Verification-Confirmation";
+  const stored = makeScoresStored(1, [0.5, 0.5, 0.5]);
+  const issuesFor = <A, I>(schema: Schema.Schema<A, I>, input: unknown) => {
+    try {
+      decodeWithIssues(schema)(input);
+      return [];
+    } catch (e) {
+      return (e as DecodeError).issues.map((i) => `${i.path}: ${i.message}`);
+    }
+  };
+  const withDimension = (dim: string, value: number | null) => ({
+    ...stored,
+    problem_scores: stored.problem_scores.map((p, i) =>
+      i === 0
+        ? { ...p, dimension_scores: { ...p.dimension_scores, [dim]: value } }
+        : p
+    ),
+  });
+
+  it("rejects a score for a dimension the problem does not measure", () => {
+    expect(issuesFor(JSONScores, withDimension(VERIFY, 0.5))).toEqual([
+      `$.problem_scores[0].dimension_scores["${VERIFY}"]: Problem 000340 does not measure ${VERIFY}; expected null`,
+    ]);
+  });
+
+  it("rejects null for a dimension the problem measures", () => {
+    const dim = "Expression-Translation";
+    expect(issuesFor(JSONScores, withDimension(dim, null))).toEqual([
+      `$.problem_scores[0].dimension_scores["${dim}"]: Problem 000340 measures ${dim}; expected a score, not null`,
+    ]);
+  });
+
+  it("rejects unmapped and unscored problems", () => {
+    const [first, second, third] = stored.problem_scores;
+    const renamed = {
+      ...third,
+      problem_id: { digit: "002000", name: "new" },
+    };
+    expect(
+      issuesFor(JSONScores, {
+        ...stored,
+        problem_scores: [first, second, renamed],
+      })
+    ).toEqual([
+      "$.problem_scores[2].problem_id.digit: Problem 002000 is not in the dimension map",
+      "$.dimension_map.entries[2].problem_id.digit: Problem 001001 is mapped but has no scores",
+    ]);
+  });
+
+  it("rejects grades that do not follow the source's map", () => {
+    const grades = Object.fromEntries(
+      DIMENSIONS.map((dim) => [dim, "B" as const])
+    );
+    const curved = {
+      curved_scores_id: "f6a7b8c9-d0e1-4f2a-b345-6789012abcde",
+      source: stored,
+      applied_curve_id: "a7b8c9d0-e1f2-4a3b-8456-789012abcdef",
+      curved_at: "2024-03-15T15:00:00Z",
+      problem_grades: stored.problem_scores.map((p) => ({
+        problem_id: p.problem_id,
+        task_grade: "B",
+        dimension_grades: Object.fromEntries(
+          DIMENSIONS.map((dim) => [
+            dim,
+            p.dimension_scores[dim] === null ? null : "B",
+          ])
+        ),
+      })),
+      ability_grades: grades,
+      total_grades: {
+        total_problem_grade: "B",
+        total_ability_grade: "B",
+        final_total_grade: "B",
+      },
+    };
+    expect(issuesFor(CurvedScores, curved)).toEqual([]);
+
+    const [first, ...rest] = curved.problem_grades;
+    expect(
+      issuesFor(CurvedScores, {
+        ...curved,
+        problem_grades: [
+          {
+            ...first,
+            dimension_grades: { ...first.dimension_grades, [VERIFY]: "A" },
+          },
+        ],
+      })
+    ).toEqual([
+      `$.problem_grades[0].dimension_grades["${VERIFY}"]: Problem 000340 does not measure ${VERIFY}; expected null`,
+      ...rest.map(
+        (g, i) =>
+          `$.source.dimension_map.entries[${i + 1}].problem_id.digit: Problem ${g.problem_id.digit} is mapped but has no grades`
+      ),
+    ]);
+  });
+});
+
+describe("unmeasured abilities", () => {
+  const VERIFY = "Verification-Confirmation";
+  // 000500 and 001001 no longer measure Verification
+  const map = {
+    ...dimMapStored,
+    entries: dimMapStored.entries.map((e) => ({
+      ...e,
+      dimensions: e.dimensions.filter((d) => d !== VERIFY),
+    })),
+  };
+  const failing = {
+    ...DEFAULT_AGGREGATION,
+    strategy_id: "strict",
+    unmeasured_abilities: "fail",
+  };
+
+  it("derives None and excludes it from total_ability_score", () => {
+    const scores = decodeJSONScores(
+      makeScoresStored(1, [0.5, 0.5, 0.5], (i) => [0.2, 0.4, 0.6][i], map)
+    );
+    expect(scores.ability_scores[VERIFY]).toEqual(Option.none());
+    const measured = DIMENSIONS.filter((dim) => dim !== VERIFY).map((dim) =>
+      Option.getOrThrow(scores.ability_scores[dim])
+    );
+    expect(scores.totals.total_ability_score).toBeCloseTo(
+      measured.reduce((a, b) => a + b, 0) / measured.length
+    );
+  });
+
+  it("counts it as 0 under the zero policy of the legacy strategy", () => {
+    const scores = decodeJSONScores({
+      ...makeScoresStored(1, [0.5, 0.5, 0.5], (i) => [0.2, 0.4, 0.6][i], map),
+      aggregation: LEGACY_AGGREGATION,
+    });
+    expect(scores.ability_scores[VERIFY]).toEqual(Option.none());
+    const measured = DIMENSIONS.filter((dim) => dim !== VERIFY).map((dim) =>
+      Option.getOrThrow(scores.ability_scores[dim])
+    );
+    expect(scores.totals.total_ability_score).toBeCloseTo(
+      measured.reduce((a, b) => a + b, 0) / DIMENSIONS.length
+    );
+  });
+
+  it("rejects the scores under the fail policy", () => {
+    expect(() =>
+      decodeWithIssues(JSONScores)({
+        ...makeScoresStored(1, [0.5, 0.5, 0.5], undefined, map),
+        aggregation: failing,
+      })
+    ).toThrow(
+      `$.aggregation.unmeasured_abilities: Aggregation strategy strict fails on unmeasured abilities, and no problem measures ${VERIFY}`
+    );
+    expect(
+      decodeJSONScores({
+        ...makeScoresStored(1, [0.5, 0.5, 0.5]),
+        aggregation: failing,
+      }).totals.total_ability_score
+    ).toBeCloseTo(0.5);
+  });
+
+  it("makes deriveTotals throw under the fail policy", () => {
+    const abilities = Object.fromEntries(
+      DIMENSIONS.map((dim) => [
+        dim,
+        dim === VERIFY ? Option.none() : Option.some(0.5),
+      ])
+    ) as Parameters<typeof deriveTotals>[1];
+    const strategy = Schema.decodeUnknownSync(AggregationStrategy)(failing);
+    expect(() => deriveTotals([], abilities, strategy)).toThrow(
+      UnmeasuredAbilityError
+    );
+  });
+});
+
+describe("JSONScores derived getters", () => {
+  const stored = makeScoresStored(1, [0.9, 0.6, 0.3]);
+
+  it("derives each value once per instance", () => {
+    const scores = decodeJSONScores(stored);
+    expect(scores.ability_scores).toBe(scores.ability_scores);
+    expect(scores.totals).toBe(scores.totals);
+    expect(decodeJSONScores(stored).totals).not.toBe(scores.totals);
+  });
+
+  it("leaves the encoded JSON and equality unchanged", () => {
+    const scores = decodeJSONScores(stored);
+    const before = Schema.encodeSync(JSONScores)(scores);
+    void scores.totals;
+    expect(Schema.encodeSync(JSONScores)(scores)).toEqual(before);
+    expect(JSON.stringify(scores)).not.toContain("total_ability_score");
+    expect(scores).toEqual(decodeJSONScores(stored));
+  });
+});
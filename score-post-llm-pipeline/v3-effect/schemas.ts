@@ -13,11 +13,17 @@
  *
  * 4. COMPOSITION — CurvedScores wraps JSONScores (via source).
  *
- * Scope: JSONScores, CurvedScores, ProblemDimensionMap, and their dependencies.
- * Curve, ScorePool, EventConfig are not yet ported.
+ * 5. CURVE + POOL — Curve and ScorePool embed the same ProblemDimensionMap as
+ *    JSONScores. Per-problem curves are keyed by ProblemDigitId (record, O(1)).
+ *
+ * 6. AGGREGATION — the getters' formulas are a declared, serialized
+ *    AggregationStrategy. Scores aggregated differently never share a pool.
+ *
+ * Scope: JSONScores, CurvedScores, ProblemDimensionMap, Curve, ScorePool,
+ * EventConfig, the v1 ⇄ v3 dimension vocabulary, and their dependencies.
  */
 
-import { Schema, Option } from "effect";
+import { Data, ParseResult, Schema, Option } from "effect";
 
 // =============================================================================
 // 1. Branded Primitives
@@ -61,6 +67,9 @@ export const EventId = Schema.String.pipe(
 );
 export type EventId = typeof EventId.Type;
 
+/** A relative weight in a weighted mean */
+export const Weight = Schema.Number.pipe(Schema.positive(), Schema.finite());
+
 // =============================================================================
 // 2. Enums
 // =============================================================================
@@ -83,18 +92,85 @@ export type LetterGrade = typeof LetterGrade.Type;
 // 3. ProblemDimensionMap — standalone entity
 // =============================================================================
 
+/**
+ * One problem and the dimensions it tests, each listed once. `weights` says
+ * how strongly it tests each of them in ability_scores; a mapped dimension
+ * without a weight (or an entry without `weights`) weighs 1.
+ */
 export const DimMapEntry = Schema.Struct({
   problem_id: ProblemId,
   dimensions: Schema.Array(Dimension),
-});
+  weights: Schema.optional(
+    Schema.partial(Schema.Record({ key: Dimension, value: Weight }))
+  ),
+}).pipe(
+  Schema.filter((entry) => [
+    ...entry.dimensions.flatMap((dim, i) => {
+      const first = entry.dimensions.indexOf(dim);
+      return first === i
+        ? []
+        : [
+            {
+              path: ["dimensions", i],
+              message: `${dim} is already listed at dimensions[${first}]`,
+            },
+          ];
+    }),
+    ...Object.keys(entry.weights ?? {})
+      .filter((dim) => !entry.dimensions.includes(dim as Dimension))
+      .map((dim) => ({
+        path: ["weights", dim],
+        message: `${dim} is weighted but not in dimensions`,
+      })),
+  ])
+);
 export type DimMapEntry = typeof DimMapEntry.Type;
 
+/**
+ * Lookup of a map's problem–dimension edge weights by problem digit. Edges
+ * without a declared weight, and problems the map lacks, weigh 1.
+ */
+export const edgeWeights = (map: {
+  readonly entries: readonly DimMapEntry[];
+}): ((digit: string, dim: Dimension) => number) => {
+  const entries = new Map<string, DimMapEntry>(
+    map.entries.map((e) => [e.problem_id.digit, e])
+  );
+  return (digit, dim) => entries.get(digit)?.weights?.[dim] ?? 1;
+};
+
+/**
+ * Every problem appears in one entry. A dimension no entry maps is allowed
+ * (its ability score is None, unmeasured); dimensionCoverage (coverage.ts)
+ * reports it.
+ */
 export const ProblemDimensionMap = Schema.Struct({
   map_id: Schema.UUID,
   label: Schema.String,
   created_at: Schema.DateTimeUtc,
   entries: Schema.Array(DimMapEntry),
-});
+}).pipe(
+  Schema.filter((map) =>
+    map.entries.flatMap(({ problem_id }, i) => {
+      const first = map.entries.findIndex(
+        (e) => e.problem_id.digit === problem_id.digit
+      );
+      if (first === i) return [];
+      const { name } = map.entries[first].problem_id;
+      return [
+        name === problem_id.name
+          ? {
+              path: ["entries", i, "problem_id"],
+              message: `Problem ${problem_id.digit} is already mapped at entries[${first}]`,
+            }
+          : {
+              path: ["entries", i, "problem_id", "name"],
+              message: `Problem ${problem_id.digit} is named "${problem_id.name}" here but "${name}" at entries[${first}]`,
+            },
+      ];
+    })
+  )
+);
 export type ProblemDimensionMap = typeof ProblemDimensionMap.Type;
 
 // =============================================================================
@@ -115,32 +191,369 @@ export const ProblemScore = Schema.Struct({
 });
 export type ProblemScore = typeof ProblemScore.Type;
 
+/** Normalizations the repair stage (repair.ts) may apply to raw LLM output */
+export const REPAIR_RULES = [
+  "numeric_string",
+  "percent_scale",
+  "null_to_empty",
+] as const;
+export const RepairRule = Schema.Literal(...REPAIR_RULES);
+export type RepairRule = typeof RepairRule.Type;
+
+/** One repaired value in the source report, e.g. "80" → 0.8 */
+export const RepairEntry = Schema.Struct({
+  /** JSON path into the source report */
+  path: Schema.String,
+  original: Schema.Unknown,
+  repaired: Schema.Unknown,
+  /** Rules applied, in order */
+  rules: Schema.NonEmptyArray(RepairRule),
+});
+export type RepairEntry = typeof RepairEntry.Type;
+
 // =============================================================================
 // 5. JSONScores — Schema.Class with derived getters
 //
-// Stored fields (JSON): scores_id, event_id, ..., problem_scores
+// Stored fields (JSON): scores_id, event_id, ..., problem_scores, repairs,
+//                       aggregation
 // Derived getters:      ability_scores, totals
 //
 // Getters are part of the decoded type but NOT serialized.
 // Schema.Class only encodes declared fields.
 //
-// Formulas:
-//   ability_scores[dim]  = arithmetic mean of that dim across mapped problems
+// Formulas come from the declared AggregationStrategy. The default:
+//   ability_scores[dim]  = mean of that dim across mapped problems, weighted
+//                          by the dimension map's edge weights (default 1)
 //   total_problem_score  = arithmetic mean of task_scores
-//   total_ability_score  = arithmetic mean of the 5 ability scores
+//   total_ability_score  = arithmetic mean of the measured ability scores
+//                          (LEGACY_AGGREGATION: unmeasured ones count as 0)
 //   final_total_score    = geometric mean: √(problem × ability)
 // =============================================================================
 
-/** Arithmetic mean. Returns 0 for empty input. */
-const mean = (values: readonly number[]): number =>
-  values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+/** How per-problem values are averaged; unlisted problems weigh 1 */
+export const ProblemWeighting = Schema.Union(
+  Schema.Struct({ type: Schema.Literal("mean") }),
+  Schema.Struct({
+    type: Schema.Literal("weighted_mean"),
+    problem_weights: Schema.Record({ key: ProblemDigitId, value: Weight }),
+  })
+);
+export type ProblemWeighting = typeof ProblemWeighting.Type;
+
+/** How the 5 ability scores are averaged into total_ability_score */
+export const DimensionWeighting = Schema.Union(
+  Schema.Struct({ type: Schema.Literal("mean") }),
+  Schema.Struct({
+    type: Schema.Literal("weighted_mean"),
+    dimension_weights: Schema.Record({ key: Dimension, value: Weight }),
+  })
+);
+export type DimensionWeighting = typeof DimensionWeighting.Type;
 
-/** Geometric mean of two non-negative numbers: √(a × b) */
-const geoMean2 = (a: number, b: number): number => Math.sqrt(a * b);
+/** How total_problem_score and total_ability_score combine */
+export const FinalTotalCombination = Schema.Union(
+  /** √(problem × ability) */
+  Schema.Struct({ type: Schema.Literal("geometric_mean") }),
+  /** (problem + ability) / 2 */
+  Schema.Struct({ type: Schema.Literal("arithmetic_mean") }),
+  /** (wp × problem + wa × ability) / (wp + wa) */
+  Schema.Struct({
+    type: Schema.Literal("weighted_mean"),
+    problem_weight: Weight,
+    ability_weight: Weight,
+  })
+);
+export type FinalTotalCombination = typeof FinalTotalCombination.Type;
+
+/**
+ * What an ability no problem measured (None in ability_scores) does to the
+ * totals: "exclude" leaves it out of total_ability_score, "fail" rejects
+ * the scores when they are decoded, "zero" counts it as 0 (the formula
+ * before the policy was declared)
+ */
+export const UnmeasuredAbilityPolicy = Schema.Literal(
+  "exclude",
+  "fail",
+  "zero"
+);
+export type UnmeasuredAbilityPolicy = typeof UnmeasuredAbilityPolicy.Type;
+
+/**
+ * The declared formulas behind ability_scores and totals. Recorded in every
+ * JSONScores (and EventConfig, ScorePool, Curve) so scores aggregated
+ * differently are never pooled or graded together. Strategies are compared
+ * as a whole (sameAggregation), not by `strategy_id` alone.
+ */
+export const AggregationStrategy = Schema.Struct({
+  /** Human-readable name, e.g. "default" or "weighted-problems-2024" */
+  strategy_id: Schema.String.pipe(Schema.minLength(1)),
+  /** Per-dimension mean over the problems that measure it */
+  abilities: ProblemWeighting,
+  total_problem: ProblemWeighting,
+  total_ability: DimensionWeighting,
+  final_total: FinalTotalCombination,
+  /** Absent in JSON = "exclude" */
+  unmeasured_abilities: Schema.optionalWith(UnmeasuredAbilityPolicy, {
+    default: () => "exclude" as const,
+  }),
+});
+export type AggregationStrategy = typeof AggregationStrategy.Type;
+
+/**
+ * The formulas JSONScores used before strategies were declared. Stored
+ * records without an `aggregation` decode to it.
+ */
+export const LEGACY_AGGREGATION: AggregationStrategy = {
+  strategy_id: "default",
+  abilities: { type: "mean" },
+  total_problem: { type: "mean" },
+  total_ability: { type: "mean" },
+  final_total: { type: "geometric_mean" },
+  unmeasured_abilities: "zero",
+};
+
+/**
+ * LEGACY_AGGREGATION, except that an unmeasured ability is left out of
+ * total_ability_score instead of counting as 0. New scores use it unless
+ * their event declares another strategy.
+ */
+export const DEFAULT_AGGREGATION: AggregationStrategy = {
+  ...LEGACY_AGGREGATION,
+  strategy_id: "default-exclude-unmeasured",
+  unmeasured_abilities: "exclude",
+};
+
+/** JSON with object keys sorted, so equal values serialize equally */
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_, v: unknown) =>
+    typeof v === "object" && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        )
+      : v
+  );
+
+/** Same formulas and weights (key order does not matter) */
+export const sameAggregation = (
+  a: AggregationStrategy,
+  b: AggregationStrategy
+): boolean => canonicalJson(a) === canonicalJson(b);
+
+/** Weighted arithmetic mean. Returns 0 for empty input. */
+const weightedMean = (
+  values: readonly { readonly value: number; readonly weight: number }[]
+): number => {
+  const total = values.reduce((sum, v) => sum + v.weight, 0);
+  return total === 0
+    ? 0
+    : values.reduce((sum, v) => sum + v.weight * v.value, 0) / total;
+};
+
+/** A problem's weight under a ProblemWeighting (1 unless listed) */
+export const problemWeight = (
+  weighting: ProblemWeighting,
+  digit: string
+): number =>
+  weighting.type === "mean"
+    ? 1
+    : ((weighting.problem_weights as Record<string, number>)[digit] ?? 1);
+
+/** A dimension's weight under a DimensionWeighting */
+export const dimensionWeight = (
+  weighting: DimensionWeighting,
+  dim: Dimension
+): number =>
+  weighting.type === "mean" ? 1 : weighting.dimension_weights[dim];
+
+/** final_total_score from the two other totals */
+export const combineTotals = (
+  combination: FinalTotalCombination,
+  totalProblem: number,
+  totalAbility: number
+): number => {
+  switch (combination.type) {
+    case "geometric_mean":
+      return Math.sqrt(totalProblem * totalAbility);
+    case "arithmetic_mean":
+      return (totalProblem + totalAbility) / 2;
+    case "weighted_mean":
+      return weightedMean([
+        { value: totalProblem, weight: combination.problem_weight },
+        { value: totalAbility, weight: combination.ability_weight },
+      ]);
+  }
+};
 
 const toScoreValue = Schema.decodeSync(ScoreValue);
 
-export class JSONScores extends Schema.Class<JSONScores>("JSONScores")({
+/**
+ * ability_scores formula, shared by the getter and by checks that recompute
+ * it from other score sources (report-consistency.ts). A problem's weight in
+ * a dimension is its strategy weight × its edge weight in `dimensionMap`.
+ * A dimension without any Some score is None: unmeasured, not 0.
+ */
+export const deriveAbilityScores = (
+  problems: readonly {
+    readonly problem_id: { readonly digit: string };
+    readonly dimension_scores: {
+      readonly [K in Dimension]: Option.Option<number>;
+    };
+  }[],
+  strategy: AggregationStrategy = DEFAULT_AGGREGATION,
+  dimensionMap: { readonly entries: readonly DimMapEntry[] } = { entries: [] }
+): { readonly [K in Dimension]: Option.Option<ScoreValue> } => {
+  const edgeWeight = edgeWeights(dimensionMap);
+  const entries = DIMENSIONS.map((dim) => {
+    const values = problems.flatMap((p) =>
+      Option.match(p.dimension_scores[dim], {
+        onNone: () => [],
+        onSome: (value) => [
+          {
+            value,
+            weight:
+              problemWeight(strategy.abilities, p.problem_id.digit) *
+              edgeWeight(p.problem_id.digit, dim),
+          },
+        ],
+      })
+    );
+    const score =
+      values.length === 0
+        ? Option.none()
+        : Option.some(toScoreValue(weightedMean(values)));
+    return [dim, score] as const;
+  });
+  return Object.fromEntries(entries) as {
+    readonly [K in Dimension]: Option.Option<ScoreValue>;
+  };
+};
+
+/** The dimensions whose ability score is None */
+export const unmeasuredDimensions = (abilities: {
+  readonly [K in Dimension]: Option.Option<number>;
+}): readonly Dimension[] =>
+  DIMENSIONS.filter((dim) => Option.isNone(abilities[dim]));
+
+/** deriveTotals met an unmeasured ability under the "fail" policy */
+export class UnmeasuredAbilityError extends Data.TaggedError(
+  "UnmeasuredAbilityError"
+)<{
+  readonly message: string;
+  readonly dimensions: readonly Dimension[];
+}> {}
+
+/**
+ * totals formula, shared like deriveAbilityScores. Unmeasured abilities are
+ * left out of total_ability_score, count as 0 under "zero", or throw
+ * UnmeasuredAbilityError under "fail".
+ */
+export const deriveTotals = (
+  problems: readonly {
+    readonly problem_id: { readonly digit: string };
+    readonly task_score: number;
+  }[],
+  abilities: { readonly [K in Dimension]: Option.Option<number> },
+  strategy: AggregationStrategy = DEFAULT_AGGREGATION
+) => {
+  const unmeasured = unmeasuredDimensions(abilities);
+  if (unmeasured.length > 0 && strategy.unmeasured_abilities === "fail") {
+    throw new UnmeasuredAbilityError({
+      message: `Aggregation strategy ${strategy.strategy_id} requires every ability, but ${unmeasured.join(", ")} ${unmeasured.length === 1 ? "is" : "are"} unmeasured`,
+      dimensions: unmeasured,
+    });
+  }
+  const totalProblem = toScoreValue(
+    weightedMean(
+      problems.map((p) => ({
+        value: p.task_score,
+        weight: problemWeight(strategy.total_problem, p.problem_id.digit),
+      }))
+    )
+  );
+  const totalAbility = toScoreValue(
+    weightedMean(
+      DIMENSIONS.flatMap((dim) =>
+        Option.match(abilities[dim], {
+          onNone: () =>
+            strategy.unmeasured_abilities === "zero"
+              ? [
+                  {
+                    value: 0,
+                    weight: dimensionWeight(strategy.total_ability, dim),
+                  },
+                ]
+              : [],
+          onSome: (value) => [
+            { value, weight: dimensionWeight(strategy.total_ability, dim) },
+          ],
+        })
+      )
+    )
+  );
+  const finalTotal = toScoreValue(
+    combineTotals(strategy.final_total, totalProblem, totalAbility)
+  );
+  return {
+    total_problem_score: totalProblem,
+    total_ability_score: totalAbility,
+    final_total_score: finalTotal,
+  } as const;
+};
+
+/**
+ * Where per-problem Some/None patterns disagree with the map. Every problem
+ * in `problems` (at `at`) must be mapped, every mapped problem (at `mapAt`)
+ * must be present, and exactly the mapped dimensions must be Some in `key`.
+ */
+const mapAgreementIssues = <K extends "dimension_scores" | "dimension_grades">(
+  map: ProblemDimensionMap,
+  mapAt: readonly PropertyKey[],
+  problems: readonly ({ readonly problem_id: ProblemId } & {
+    readonly [P in K]: { readonly [D in Dimension]: Option.Option<unknown> };
+  })[],
+  at: string,
+  key: K
+): Schema.FilterIssue[] => {
+  const noun = key === "dimension_scores" ? "score" : "grade";
+  const mapped = new Map<string, DimMapEntry>(
+    map.entries.map((e) => [e.problem_id.digit, e])
+  );
+  const present = new Set<string>(problems.map((p) => p.problem_id.digit));
+  const issues: Schema.FilterIssue[] = [];
+  problems.forEach((p, i) => {
+    const { digit } = p.problem_id;
+    const entry = mapped.get(digit);
+    if (entry === undefined) {
+      issues.push({
+        path: [at, i, "problem_id", "digit"],
+        message: `Problem ${digit} is not in the dimension map`,
+      });
+      return;
+    }
+    for (const dim of DIMENSIONS) {
+      const measured = entry.dimensions.includes(dim);
+      if (measured !== Option.isSome(p[key][dim])) {
+        issues.push({
+          path: [at, i, key, dim],
+          message: measured
+            ? `Problem ${digit} measures ${dim}; expected a ${noun}, not null`
+            : `Problem ${digit} does not measure ${dim}; expected null`,
+        });
+      }
+    }
+  });
+  map.entries.forEach(({ problem_id }, j) => {
+    if (!present.has(problem_id.digit)) {
+      issues.push({
+        path: [...mapAt, "entries", j, "problem_id", "digit"],
+        message: `Problem ${problem_id.digit} is mapped but has no ${noun}s`,
+      });
+    }
+  });
+  return issues;
+};
+
+const JSONScoresFields = Schema.Struct({
   scores_id: Schema.UUID,
   event_id: EventId,
   prompt_version_hash: PromptVersionHash,
@@ -148,34 +561,74 @@ export class JSONScores extends Schema.Class<JSONScores>("JSONScores")({
   generated_at: Schema.DateTimeUtc,
   participant_id: Schema.String.pipe(Schema.minLength(1)),
   problem_scores: Schema.Array(ProblemScore),
-}) {
-  /** Per-dimension arithmetic mean across mapped problems (skip None) */
-  get ability_scores(): { readonly [K in Dimension]: ScoreValue } {
-    const entries = DIMENSIONS.map((dim) => {
-      const values = this.problem_scores
-        .map((p) => p.dimension_scores[dim])
-        .filter(Option.isSome)
-        .map((o) => o.value);
-      return [dim, toScoreValue(mean(values))] as const;
-    });
-    return Object.fromEntries(entries) as {
-      readonly [K in Dimension]: ScoreValue;
-    };
+  /**
+   * Provenance: repairs applied to the source report before extraction.
+   * Non-empty marks the scores as repaired; absent in JSON = [].
+   */
+  repairs: Schema.optionalWith(Schema.Array(RepairEntry), {
+    default: () => [],
+  }),
+  /** Formulas for the getters; absent in JSON = LEGACY_AGGREGATION */
+  aggregation: Schema.optionalWith(AggregationStrategy, {
+    default: () => LEGACY_AGGREGATION,
+  }),
+});
+
+/**
+ * Decoding checks problem_scores against the embedded dimension_map: the
+ * same problems, with Some for exactly each problem's mapped dimensions.
+ * Under the "fail" policy every dimension must also be mapped, so the
+ * totals never meet an unmeasured ability.
+ */
+export class JSONScores extends Schema.Class<JSONScores>("JSONScores")(
+  JSONScoresFields.pipe(
+    Schema.filter((s) => [
+      ...mapAgreementIssues(
+        s.dimension_map,
+        ["dimension_map"],
+        s.problem_scores,
+        "problem_scores",
+        "dimension_scores"
+      ),
+      ...(s.aggregation.unmeasured_abilities === "fail"
+        ? DIMENSIONS.filter(
+            (dim) => !s.dimension_map.entries.some((e) => e.dimensions.includes(dim))
+          ).map((dim) => ({
+            path: ["aggregation", "unmeasured_abilities"],
+            message: `Aggregation strategy ${s.aggregation.strategy_id} fails on unmeasured abilities, and no problem measures ${dim}`,
+          }))
+        : []),
+    ])
+  )
+) {
+  // Derived once per instance on first access. The fields are readonly and
+  // private fields are neither encoded nor compared, so the cache is
+  // invisible outside the getters.
+  #abilityScores: ReturnType<typeof deriveAbilityScores> | undefined;
+  #totals: ReturnType<typeof deriveTotals> | undefined;
+
+  /**
+   * Per-dimension (weighted) mean across mapped problems (skip None),
+   * weighted by the strategy and the dimension map's edge weights. None
+   * when no problem measures the dimension.
+   */
+  get ability_scores(): {
+    readonly [K in Dimension]: Option.Option<ScoreValue>;
+  } {
+    return (this.#abilityScores ??= deriveAbilityScores(
+      this.problem_scores,
+      this.aggregation,
+      this.dimension_map
+    ));
   }
 
   /** Derived totals from problem_scores */
   get totals() {
-    const abilities = this.ability_scores;
-    const totalProblem = toScoreValue(
-      mean(this.problem_scores.map((p) => p.task_score))
-    );
-    const totalAbility = toScoreValue(mean(Object.values(abilities)));
-    const finalTotal = toScoreValue(geoMean2(totalProblem, totalAbility));
-    return {
-      total_problem_score: totalProblem,
-      total_ability_score: totalAbility,
-      final_total_score: finalTotal,
-    } as const;
+    return (this.#totals ??= deriveTotals(
+      this.problem_scores,
+      this.ability_scores,
+      this.aggregation
+    ));
   }
 }
 
@@ -208,23 +661,563 @@ export type TotalGrades = typeof TotalGrades.Type;
 // 7. CurvedScores — composes JSONScores, adds grades
 // =============================================================================
 
+/**
+ * A scored problem graded by the curve entry of its other-language variant,
+ * e.g. en `000341` graded against zh `000340`.
+ */
+export const LanguageBridge = Schema.Struct({
+  scores_digit: ProblemDigitId,
+  curve_digit: ProblemDigitId,
+});
+export type LanguageBridge = typeof LanguageBridge.Type;
+
+/**
+ * Decoding checks problem_grades against the source's dimension_map, as
+ * JSONScores does for problem_scores: a grade for exactly each mapped
+ * dimension of every mapped problem. ability_grades are None exactly where
+ * the source's ability_scores are.
+ */
 export const CurvedScores = Schema.Struct({
   curved_scores_id: Schema.UUID,
   source: JSONScores,
+  /** References Curve.curve_id */
   applied_curve_id: Schema.UUID,
   curved_at: Schema.DateTimeUtc,
   problem_grades: Schema.Array(ProblemGrade),
-  /** Stored because computing these requires the curve function */
-  ability_grades: Schema.Record({ key: Dimension, value: LetterGrade }),
+  /**
+   * Stored because computing these requires the curve function.
+   * None (null in JSON) for an unmeasured ability.
+   */
+  ability_grades: Schema.Record({
+    key: Dimension,
+    value: Schema.OptionFromNullOr(LetterGrade),
+  }),
   total_grades: TotalGrades,
-});
+  /** Non-empty when a language-bridged curve was applied; absent in JSON = [] */
+  language_bridges: Schema.optionalWith(Schema.Array(LanguageBridge), {
+    default: () => [],
+  }),
+}).pipe(
+  Schema.filter((c) => {
+    const abilities = c.source.ability_scores;
+    return [
+      ...mapAgreementIssues(
+        c.source.dimension_map,
+        ["source", "dimension_map"],
+        c.problem_grades,
+        "problem_grades",
+        "dimension_grades"
+      ),
+      ...DIMENSIONS.filter(
+        (dim) =>
+          Option.isSome(abilities[dim]) !== Option.isSome(c.ability_grades[dim])
+      ).map((dim) => ({
+        path: ["ability_grades", dim],
+        message: Option.isSome(abilities[dim])
+          ? `${dim} is measured; expected a grade, not null`
+          : `${dim} is unmeasured; expected null`,
+      })),
+    ];
+  })
+);
 export type CurvedScores = typeof CurvedScores.Type;
 
+// =============================================================================
+// 8. Curve — grade thresholds computed from a ScorePool
+//
+// Record format for O(1) lookup (ip-04 #8). Per-problem curves are keyed by
+// the stable ProblemDigitId, so renaming a problem never orphans its curve.
+// =============================================================================
+
+/** A/B/C parameters must not cross: A ≥ B ≥ C */
+const descendingABC = <A extends readonly [number, number, number], I, R>(
+  self: Schema.Schema<A, I, R>
+) =>
+  self.pipe(
+    Schema.filter((t) => t[0] >= t[1] && t[1] >= t[2], {
+      message: () => "Must be in descending order for A, B, C",
+    })
+  );
+
+/**
+ * How thresholds were computed (recorded for audit/reproducibility).
+ * Discriminated on `type`, mirroring v2 CurveMethodSchema.
+ */
+export const CurveMethod = Schema.Union(
+  Schema.Struct({
+    type: Schema.Literal("percentile"),
+    /** Quantiles for the A/B/C cut-offs, e.g. [0.85, 0.5, 0.15] = top 15% get A */
+    percentiles: Schema.Tuple(ScoreValue, ScoreValue, ScoreValue).pipe(
+      descendingABC
+    ),
+  }),
+  Schema.Struct({
+    type: Schema.Literal("standard_deviation"),
+    /** e.g. [1, 0, -1] means A ≥ μ+1σ, B ≥ μ, C ≥ μ-1σ, D < μ-1σ */
+    sigma_boundaries: Schema.Tuple(
+      Schema.Number,
+      Schema.Number,
+      Schema.Number
+    ).pipe(descendingABC),
+    /**
+     * σ divisor: n (population) or n − 1 (sample, Bessel-corrected).
+     * Curves stored before this field existed used population.
+     */
+    std_dev: Schema.optionalWith(Schema.Literal("population", "sample"), {
+      default: () => "population" as const,
+    }),
+  }),
+  Schema.Struct({
+    type: Schema.Literal("robust"),
+    /**
+     * Like standard_deviation, with μ → median and σ → mad_scale × MAD,
+     * so a few outliers (e.g. zeros from failed LLM scoring) barely move it.
+     */
+    sigma_boundaries: Schema.Tuple(
+      Schema.Number,
+      Schema.Number,
+      Schema.Number
+    ).pipe(descendingABC),
+    /** 1.4826 makes scaled MAD estimate σ for normal data */
+    mad_scale: Schema.optionalWith(Schema.Number.pipe(Schema.positive()), {
+      default: () => 1.4826,
+    }),
+  }),
+  Schema.Struct({
+    type: Schema.Literal("absolute"),
+    /** Fixed A/B/C cut scores, used as-is for every category */
+    thresholds: Schema.Tuple(ScoreValue, ScoreValue, ScoreValue).pipe(
+      descendingABC
+    ),
+  })
+);
+export type CurveMethod = typeof CurveMethod.Type;
+
+/**
+ * Minimum score for each grade. D is implied: score < C.
+ */
+export const GradeThresholds = Schema.Struct({
+  A: ScoreValue,
+  B: ScoreValue,
+  C: ScoreValue,
+}).pipe(
+  Schema.filter((t) => t.A >= t.B && t.B >= t.C, {
+    message: () => "Thresholds must satisfy A ≥ B ≥ C",
+  })
+);
+export type GradeThresholds = typeof GradeThresholds.Type;
+
+export const TotalCurves = Schema.Struct({
+  total_problem: GradeThresholds,
+  total_ability: GradeThresholds,
+  final_total: GradeThresholds,
+});
+export type TotalCurves = typeof TotalCurves.Type;
+
+/**
+ * What to do with a category whose pool sample is below its minimum
+ * (v2 silently substituted [0.8, 0.5, 0.2]; v3 makes the choice explicit):
+ *   reject         → computing the curve fails
+ *   borrow_parent  → problem ← total_problem, dimension ← total_ability
+ *   absolute       → the declared thresholds
+ */
+export const SampleFallback = Schema.Union(
+  Schema.Struct({ type: Schema.Literal("reject") }),
+  Schema.Struct({ type: Schema.Literal("borrow_parent") }),
+  Schema.Struct({
+    type: Schema.Literal("absolute"),
+    thresholds: GradeThresholds,
+  })
+);
+export type SampleFallback = typeof SampleFallback.Type;
+
+export const SamplePolicy = Schema.Struct({
+  /** Minimum number of pooled values for a category's own curve */
+  min_sample_size: Schema.Struct({
+    problem: Schema.Int.pipe(Schema.positive()),
+    ability: Schema.Int.pipe(Schema.positive()),
+    total: Schema.Int.pipe(Schema.positive()),
+  }),
+  fallback: SampleFallback,
+});
+export type SamplePolicy = typeof SamplePolicy.Type;
+
+/**
+ * Every category with at least one value gets its own curve; an empty one
+ * fails the computation (matches the behaviour before policies existed).
+ * Abilities no pooled participant measured are exempt: they get no curve.
+ */
+export const DEFAULT_SAMPLE_POLICY: SamplePolicy = {
+  min_sample_size: { problem: 1, ability: 1, total: 1 },
+  fallback: { type: "reject" },
+};
+
+/**
+ * Where one category's thresholds came from. "unmeasured" is an ability no
+ * pooled participant has a score for: it has no curve at all (sample size 0).
+ */
+export const CategorySampling = Schema.Struct({
+  /** Pooled values available for this category */
+  sample_size: Schema.Int.pipe(Schema.nonNegative()),
+  source: Schema.Literal("pool", "parent", "absolute", "unmeasured"),
+});
+export type CategorySampling = typeof CategorySampling.Type;
+
+/** The policy plus the outcome for every category, mirroring the curve layout */
+export const CurveSampling = Schema.Struct({
+  policy: SamplePolicy,
+  totals: Schema.Struct({
+    total_problem: CategorySampling,
+    total_ability: CategorySampling,
+    final_total: CategorySampling,
+  }),
+  abilities: Schema.Record({ key: Dimension, value: CategorySampling }),
+  problems: Schema.Record({ key: ProblemDigitId, value: CategorySampling }),
+});
+export type CurveSampling = typeof CurveSampling.Type;
+
+const CurveFields = Schema.Struct({
+  curve_id: Schema.UUID,
+  label: Schema.String.pipe(Schema.minLength(1)),
+  /** Multiple source events allowed */
+  source_event_ids: Schema.NonEmptyArray(EventId),
+  prompt_version_hash: PromptVersionHash,
+  /** Embedded snapshot for compatibility checks when applying the curve */
+  dimension_map: ProblemDimensionMap,
+  method: CurveMethod,
+  /** Number of participants the curve was computed from */
+  sample_size: Schema.Int.pipe(Schema.positive()),
+  computed_at: Schema.DateTimeUtc,
+  totals: TotalCurves,
+  /** None (null in JSON) for a dimension no pooled participant measured */
+  ability_curves: Schema.Record({
+    key: Dimension,
+    value: Schema.OptionFromNullOr(GradeThresholds),
+  }),
+  problem_curves: Schema.Record({ key: ProblemDigitId, value: GradeThresholds }),
+  /** Small-sample policy and which categories fell back */
+  sampling: CurveSampling,
+  /** The pool's aggregation; absent in JSON = LEGACY_AGGREGATION */
+  aggregation: Schema.optionalWith(AggregationStrategy, {
+    default: () => LEGACY_AGGREGATION,
+  }),
+});
+
+/**
+ * What a curve stored without `sampling` was computed under: the default
+ * policy, with every category from its pool of `sample_size` participants
+ */
+const legacySampling = (
+  curve: Omit<typeof CurveFields.Type, "sampling">
+): CurveSampling => {
+  const pooled: CategorySampling = {
+    sample_size: curve.sample_size,
+    source: "pool",
+  };
+  return {
+    policy: DEFAULT_SAMPLE_POLICY,
+    totals: {
+      total_problem: pooled,
+      total_ability: pooled,
+      final_total: pooled,
+    },
+    abilities: Object.fromEntries(
+      DIMENSIONS.map((dim) => [
+        dim,
+        Option.isSome(curve.ability_curves[dim])
+          ? pooled
+          : { sample_size: 0, source: "unmeasured" },
+      ])
+    ) as CurveSampling["abilities"],
+    problems: Object.fromEntries(
+      Object.keys(curve.problem_curves).map((digit) => [digit, pooled])
+    ) as CurveSampling["problems"],
+  };
+};
+
+/** Absent `sampling` in JSON (curves stored before it) = legacySampling */
+export const Curve = Schema.transform(
+  Schema.Struct({
+    ...CurveFields.fields,
+    sampling: Schema.optionalWith(CurveSampling, { exact: true }),
+  }),
+  Schema.typeSchema(CurveFields),
+  {
+    strict: true,
+    decode: ({ sampling, ...curve }) => ({
+      ...curve,
+      sampling: sampling ?? legacySampling(curve),
+    }),
+    encode: (curve) => curve,
+  }
+);
+export type Curve = typeof Curve.Type;
+
+// =============================================================================
+// 9. ScorePool — JSONScores collected for curve computation
+//
+// Scores may come from several events (ip-04 #16), but every score must share
+// the pool's prompt version, dimension map and aggregation strategy, and cover
+// every pooled problem, so the pool can always be meaningfully computed once
+// formed.
+// =============================================================================
+
+export const ScorePool = Schema.Struct({
+  pool_id: Schema.UUID,
+  label: Schema.String.pipe(Schema.minLength(1)),
+  source_event_ids: Schema.NonEmptyArray(EventId),
+  prompt_version_hash: PromptVersionHash,
+  /** Required problems — must be present in every score */
+  problem_ids: Schema.Array(ProblemId),
+  dimension_map: ProblemDimensionMap,
+  created_at: Schema.DateTimeUtc,
+  /** Every score's aggregation; absent in JSON = LEGACY_AGGREGATION */
+  aggregation: Schema.optionalWith(AggregationStrategy, {
+    default: () => LEGACY_AGGREGATION,
+  }),
+  scores: Schema.Array(JSONScores),
+}).pipe(
+  Schema.filter((pool) =>
+    pool.scores.flatMap((s, i): Schema.FilterIssue[] => {
+      const at = (...path: PropertyKey[]) => ["scores", i, ...path];
+      const digits = new Set(s.problem_scores.map((p) => p.problem_id.digit));
+      return [
+        ...(pool.source_event_ids.includes(s.event_id)
+          ? []
+          : [
+              {
+                path: at("event_id"),
+                message: `Event ${s.event_id} is not a source event`,
+              },
+            ]),
+        ...(s.prompt_version_hash === pool.prompt_version_hash
+          ? []
+          : [
+              {
+                path: at("prompt_version_hash"),
+                message: `prompt_version_hash ${s.prompt_version_hash} ≠ pool ${pool.prompt_version_hash}`,
+              },
+            ]),
+        ...(s.dimension_map.map_id === pool.dimension_map.map_id
+          ? []
+          : [
+              {
+                path: at("dimension_map", "map_id"),
+                message: `dimension_map ${s.dimension_map.map_id} ≠ pool ${pool.dimension_map.map_id}`,
+              },
+            ]),
+        ...(sameAggregation(s.aggregation, pool.aggregation)
+          ? []
+          : [
+              {
+                path: at("aggregation"),
+                message: `Aggregation strategy ${s.aggregation.strategy_id} differs from pool strategy ${pool.aggregation.strategy_id}`,
+              },
+            ]),
+        ...pool.problem_ids
+          .filter((p) => !digits.has(p.digit))
+          .map((p) => ({
+            path: at("problem_scores"),
+            message: `Missing pooled problem ${p.digit}`,
+          })),
+      ];
+    })
+  )
+);
+export type ScorePool = typeof ScorePool.Type;
+
+// =============================================================================
+// 10. Compatibility — typed differences between a Curve and a JSONScores
+//
+// Mirrors v2 CompatibilityResultSchema (compatible / incompatible /
+// requires_override), but every difference is a tagged struct instead of a
+// string, so batch tools can group and report them by `_tag`.
+//
+// Blocking (→ incompatible): the curve cannot grade these scores.
+// Non-blocking (→ requires_override): grading works, but the scores were
+// produced under different scoring parameters (domain-context.md §4.2).
+// =============================================================================
+
+/** Scores contain a problem the curve has no thresholds for (blocking) */
+export const ProblemMissingFromCurve = Schema.TaggedStruct(
+  "ProblemMissingFromCurve",
+  { digit: ProblemDigitId }
+);
+
+/** Curve has thresholds for a problem the scores never attempted (blocking) */
+export const ProblemMissingFromScores = Schema.TaggedStruct(
+  "ProblemMissingFromScores",
+  { digit: ProblemDigitId }
+);
+
+/**
+ * Same problem, different mapped dimensions (blocking). `curve_digit` differs
+ * from `digit` when the curve is language-bridged.
+ */
+export const DimensionMapEntryMismatch = Schema.TaggedStruct(
+  "DimensionMapEntryMismatch",
+  {
+    digit: ProblemDigitId,
+    curve_digit: ProblemDigitId,
+    curve_dimensions: Schema.Array(Dimension),
+    scores_dimensions: Schema.Array(Dimension),
+  }
+);
+
+/**
+ * Same problem and dimensions, different edge weight for one dimension
+ * (blocking): its ability scores were averaged differently.
+ */
+export const DimensionWeightMismatch = Schema.TaggedStruct(
+  "DimensionWeightMismatch",
+  {
+    digit: ProblemDigitId,
+    curve_digit: ProblemDigitId,
+    dimension: Dimension,
+    curve_weight: Weight,
+    scores_weight: Weight,
+  }
+);
+
+/** Scored with a different prompt version (requires override) */
+export const PromptVersionMismatch = Schema.TaggedStruct(
+  "PromptVersionMismatch",
+  { curve: PromptVersionHash, scores: PromptVersionHash }
+);
+
+/** Different ProblemDimensionMap identity (requires override) */
+export const DimensionMapIdMismatch = Schema.TaggedStruct(
+  "DimensionMapIdMismatch",
+  { curve: Schema.UUID, scores: Schema.UUID }
+);
+
+/**
+ * Totals derived with different formulas (blocking): the curve's thresholds
+ * are on another scale. Carries the strategy IDs; the strategies may also
+ * share an ID and differ in weights.
+ */
+export const AggregationMismatch = Schema.TaggedStruct("AggregationMismatch", {
+  curve: Schema.String,
+  scores: Schema.String,
+});
+
+export const CompatibilityDifference = Schema.Union(
+  ProblemMissingFromCurve,
+  ProblemMissingFromScores,
+  DimensionMapEntryMismatch,
+  DimensionWeightMismatch,
+  PromptVersionMismatch,
+  DimensionMapIdMismatch,
+  AggregationMismatch
+);
+export type CompatibilityDifference = typeof CompatibilityDifference.Type;
+
+export const CompatibilityResult = Schema.Union(
+  Schema.Struct({ status: Schema.Literal("compatible") }),
+  Schema.Struct({
+    status: Schema.Literal("incompatible"),
+    differences: Schema.NonEmptyArray(CompatibilityDifference),
+  }),
+  Schema.Struct({
+    status: Schema.Literal("requires_override"),
+    differences: Schema.NonEmptyArray(CompatibilityDifference),
+  })
+);
+export type CompatibilityResult = typeof CompatibilityResult.Type;
+
+// =============================================================================
+// 11. Legacy dimension vocabulary — v1 dimension IDs ⇄ v3 Dimension
+//
+// v1 reports (v1-vitest DimensionSchema) name the same five dimensions with
+// short IDs; the pairing follows the shared Chinese names
+// (pipeline-design.md, domain-context.md §1.2). Only exact v1 IDs decode.
+// Anything else fails — a retired 7-dimension ID, a v3 name, or a loose
+// spelling such as "Discovery" that could mean more than one dimension.
+// =============================================================================
+
+export const LEGACY_DIMENSIONS = {
+  discovery: "Discovery-Self-Understanding",
+  representation: "Expression-Translation",
+  exploratory: "Exploratory-Discovery",
+  "self-verification": "Verification-Confirmation",
+  "iterative-refinement": "Iterative-Optimization",
+} as const satisfies Record<string, Dimension>;
+
+export type LegacyDimension = keyof typeof LEGACY_DIMENSIONS;
+
+const LEGACY_BY_DIMENSION = Object.fromEntries(
+  Object.entries(LEGACY_DIMENSIONS).map(([legacy, dim]) => [dim, legacy])
+) as { readonly [K in Dimension]: LegacyDimension };
+
+const isLegacyDimension = (s: string): s is LegacyDimension =>
+  Object.hasOwn(LEGACY_DIMENSIONS, s);
+
+/** Lower-case words of a name: "Self-Verification" → self, verification */
+const nameWords = (s: string): readonly string[] =>
+  s.toLowerCase().split(/[^a-z]+/).filter((w) => w.length > 0);
+
+/** Dimensions whose v1 ID or v3 name shares a word with `s` */
+const dimensionsResembling = (s: string): readonly Dimension[] => {
+  const words = nameWords(s);
+  return DIMENSIONS.filter((dim) =>
+    [...nameWords(dim), ...nameWords(LEGACY_BY_DIMENSION[dim])].some((w) =>
+      words.includes(w)
+    )
+  );
+};
+
+/** Decodes a v1 dimension ID to its v3 Dimension; encodes back */
+export const DimensionFromLegacy = Schema.transformOrFail(
+  Schema.String,
+  Dimension,
+  {
+    strict: true,
+    decode: (s, _, ast) => {
+      if (isLegacyDimension(s)) {
+        return ParseResult.succeed(LEGACY_DIMENSIONS[s]);
+      }
+      const candidates = dimensionsResembling(s);
+      const message =
+        candidates.length > 1
+          ? `Ambiguous legacy dimension "${s}": could be ${candidates.join(" or ")}`
+          : `Unknown legacy dimension "${s}"; expected one of ${Object.keys(LEGACY_DIMENSIONS).join(", ")}`;
+      return ParseResult.fail(new ParseResult.Type(ast, s, message));
+    },
+    encode: (dim) => ParseResult.succeed(LEGACY_BY_DIMENSION[dim]),
+  }
+);
+
+// =============================================================================
+// 12. EventConfig — per-event scoring setup (ip-04 #18)
+//
+// Ported from v2 EventConfigSchema. v2's `problem_names` record is folded
+// into `problem_ids`: a v3 ProblemId already carries the name.
+// =============================================================================
+
+export const EventConfig = Schema.Struct({
+  event_id: EventId,
+  name: Schema.String.pipe(Schema.minLength(1)),
+  problem_ids: Schema.Array(ProblemId),
+  language: Schema.Literal("zh", "en"),
+  prompt_version_hash: PromptVersionHash,
+  /** How this event's JSONScores are aggregated; absent = DEFAULT_AGGREGATION */
+  aggregation: Schema.optionalWith(AggregationStrategy, {
+    default: () => DEFAULT_AGGREGATION,
+  }),
+});
+export type EventConfig = typeof EventConfig.Type;
+
 // =============================================================================
 // Decode / Encode helpers
 // =============================================================================
 
 export const decodeJSONScores = Schema.decodeUnknownSync(JSONScores);
 export const decodeCurvedScores = Schema.decodeUnknownSync(CurvedScores);
+export const decodeCurve = Schema.decodeUnknownSync(Curve);
+export const decodeScorePool = Schema.decodeUnknownSync(ScorePool);
+export const decodeEventConfig = Schema.decodeUnknownSync(EventConfig);
 export const decodeProblemDimensionMap =
   Schema.decodeUnknownSync(ProblemDimensionMap);
+export const decodeLegacyDimension =
+  Schema.decodeUnknownSync(DimensionFromLegacy);
+export const encodeLegacyDimension = Schema.encodeSync(DimensionFromLegacy);
@@ -0,0 +1,66 @@
+/**
+ * Numeric helpers for curve computation.
+ *
+ * Pure functions over plain number arrays — no schema types, so they can be
+ * reused for any score category (problem, dimension, total).
+ */
+
+/** Arithmetic mean. Returns NaN for empty input (callers guard sample size). */
+export const mean = (values: readonly number[]): number =>
+  values.reduce((a, b) => a + b, 0) / values.length;
+
+/** Population standard deviation: √(Σ(x − μ)² / n) */
+export const populationStdDev = (values: readonly number[]): number => {
+  const mu = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - mu) ** 2)));
+};
+
+/** Sample standard deviation: √(Σ(x − μ)² / (n − 1)). NaN for n < 2. */
+export const sampleStdDev = (values: readonly number[]): number => {
+  const mu = mean(values);
+  const squares = values.reduce((sum, v) => sum + (v - mu) ** 2, 0);
+  return Math.sqrt(squares / (values.length - 1));
+};
+
+/** Clamp to the ScoreValue range [0, 1] */
+export const clamp01 = (v: number): number => Math.max(0, Math.min(1, v));
+
+/**
+ * Quantile with linear interpolation between closest ranks
+ * (R type 7 / numpy default). p in [0, 1].
+ */
+export const quantile = (values: readonly number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = p * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+};
+
+/** Median (the 0.5 quantile) */
+export const median = (values: readonly number[]): number =>
+  quantile(values, 0.5);
+
+/** Median absolute deviation: median(|x − median(x)|), unscaled */
+export const medianAbsoluteDeviation = (values: readonly number[]): number => {
+  const m = median(values);
+  return median(values.map((v) => Math.abs(v - m)));
+};
+
+/** MAD × 1.4826 estimates σ for normally distributed data */
+export const MAD_NORMAL_SCALE = 1.4826;
+
+/**
+ * Seeded PRNG (mulberry32) returning values in [0, 1). The same seed always
+ * yields the same sequence, so resampling analyses are reproducible.
+ */
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,175 @@
+/**
+ * Builders for synthetic v3 data used by the *.test.ts files.
+ *
+ * Unlike fixtures.ts (a runnable walkthrough), nothing here prints; every
+ * builder returns the STORED (JSON) form so tests can tweak it before decoding
+ * (v1 reports: before parsing with LLMReportSchema).
+ */
+
+import { Schema } from "effect";
+import {
+  DEFAULT_AGGREGATION,
+  DIMENSIONS,
+  ProblemDigitId,
+  encodeLegacyDimension,
+  type Dimension,
+} from "./schemas.js";
+
+export const EVENT_ID = "spring-2024-final";
+export const PROMPT_HASH = "a3f8b2c";
+
+/** Same 3-problem mapping as fixtures.ts */
+export const dimMapStored = {
+  map_id: "d4e5f6a7-b8c9-4d0e-af12-345678901234",
+  label: "2024 Spring Assessment v2",
+  created_at: "2024-03-01T00:00:00Z",
+  entries: [
+    {
+      problem_id: { digit: "000340", name: "meeting-verify" },
+      dimensions: [
+        "Discovery-Self-Understanding",
+        "Expression-Translation",
+        "Exploratory-Discovery",
+      ] as Dimension[],
+    },
+    {
+      problem_id: { digit: "000500", name: "thinking-traps" },
+      dimensions: [
+        "Discovery-Self-Understanding",
+        "Verification-Confirmation",
+        "Iterative-Optimization",
+      ] as Dimension[],
+    },
+    {
+      problem_id: { digit: "001001", name: "ling-bing" },
+      dimensions: [...DIMENSIONS] as Dimension[],
+    },
+  ],
+};
+
+/** Branded digit for indexing Curve.problem_curves in assertions */
+export const digit = Schema.decodeSync(ProblemDigitId);
+
+const uuidFor = (n: number) =>
+  `00000000-0000-4000-8000-${n.toString(16).padStart(12, "0")}`;
+
+/**
+ * One participant's stored JSONScores over `map`'s problems. Every mapped
+ * dimension of a problem gets `dimScore` (default: same as its task score);
+ * unmapped ones are null.
+ */
+export const makeScoresStored = (
+  n: number,
+  taskScores: readonly number[],
+  dimScore?: (problemIndex: number, dim: Dimension) => number,
+  map: typeof dimMapStored = dimMapStored
+) => ({
+  scores_id: uuidFor(n),
+  event_id: EVENT_ID,
+  prompt_version_hash: PROMPT_HASH,
+  dimension_map: map,
+  generated_at: "2024-03-15T14:30:00Z",
+  participant_id: `student-${String(n).padStart(4, "0")}`,
+  problem_scores: map.entries.map((entry, i) => ({
+    problem_id: entry.problem_id,
+    task_score: taskScores[i],
+    dimension_scores: Object.fromEntries(
+      DIMENSIONS.map((dim) => [
+        dim,
+        entry.dimensions.includes(dim)
+          ? (dimScore?.(i, dim) ?? taskScores[i])
+          : null,
+      ])
+    ),
+  })),
+  aggregation: DEFAULT_AGGREGATION,
+});
+
+/** A pool over the given stored scores */
+export const makePoolStored = (scores: readonly unknown[]) => ({
+  pool_id: "e5f6a7b8-c9d0-4e1f-a234-56789012abcd",
+  label: "spring-2024-final pool",
+  source_event_ids: [EVENT_ID],
+  prompt_version_hash: PROMPT_HASH,
+  problem_ids: dimMapStored.entries.map((e) => e.problem_id),
+  dimension_map: dimMapStored,
+  created_at: "2024-03-15T14:40:00Z",
+  aggregation: DEFAULT_AGGREGATION,
+  scores,
+});
+
+/**
+ * One participant's v1 LLMReport over the dimMapStored problems, with the
+ * same score layout as makeScoresStored. Grades are uncurved ("X") and the
+ * aggregates are left null; no narrative text beyond placeholders.
+ */
+export const makeReportStored = (
+  n: number,
+  taskScores: readonly number[],
+  dimScore?: (problemIndex: number, dim: Dimension) => number
+) => {
+  const problems = dimMapStored.entries.map((entry, i) => ({
+    problemId: `${entry.problem_id.digit}-${entry.problem_id.name}`,
+    dimensions: entry.dimensions,
+    score: taskScores[i],
+    dimScore: (dim: Dimension) => dimScore?.(i, dim) ?? taskScores[i],
+  }));
+  return {
+    metadata: {
+      lang: "zh" as const,
+      reportId: uuidFor(n),
+      eventId: EVENT_ID,
+      participantId: `student-${String(n).padStart(4, "0")}`,
+      promptSetHash: "a".repeat(64),
+      entries: [{ key: "framework:zh:task-eval", sha256: "b".repeat(64) }],
+      dimensionProblemDependency: problems.map((p) => ({
+        problemId: p.problemId,
+        problemVersion: 1,
+        dimensions: p.dimensions.map((dim) => encodeLegacyDimension(dim)),
+      })),
+      createdAt: "2024-03-15T14:30:00Z",
+    },
+    dimensionCards: DIMENSIONS.map((dim) => ({
+      dimension: encodeLegacyDimension(dim),
+      phrases: "",
+      grade: "X" as const,
+    })),
+    dimensionReports: DIMENSIONS.map((dim) => ({
+      dimension: encodeLegacyDimension(dim),
+      problems: problems
+        .filter((p) => p.dimensions.includes(dim))
+        .map((p) => ({
+          problemId: p.problemId,
+          phrases: "",
+          grade: "X" as const,
+        })),
+      summary: "",
+      score: null,
+      grade: "X" as const,
+    })),
+    overall: { bad: [], good: [], improvements: [], overview: "" },
+    problemCards: problems.map((p) => ({
+      problemId: p.problemId,
+      grade: "X" as const,
+    })),
+    problemReports: problems.map((p) => ({
+      bad: [],
+      dimensionDetails: p.dimensions.map((dim) => ({
+        dimension: encodeLegacyDimension(dim),
+        proofs: [],
+        summary: "",
+        score: p.dimScore(dim),
+        grade: "X" as const,
+      })),
+      good: [],
+      problemId: p.problemId,
+      overview: "",
+      score: p.score,
+      grade: "X" as const,
+    })),
+    taskEvalMean: null,
+    abilityMean: null,
+    overallMean: null,
+    grade: "X" as const,
+  };
+};